@@ -3,7 +3,14 @@ import {
   randomState,
   buildAuthorizationUrl,
   authorizationCodeGrant,
+  refreshTokenGrant,
   tokenRevocation,
+  randomPKCECodeVerifier,
+  calculatePKCECodeChallenge,
+  initiateDeviceAuthorization,
+  pollDeviceAuthorizationGrant,
+  type ClientMetadata,
+  type Configuration,
 } from "openid-client";
 import {
   type infer as infer_,
@@ -13,25 +20,77 @@ import {
   object,
   optional,
   nullable,
+  number,
   instanceof as instanceof_,
   undefined as undefined_,
   intersection,
   union,
+  extend,
 } from "zod/mini";
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type { Socket } from "node:net";
 
 const AUTHORIZATION_ENDPOINT_METHOD_PREFIX_OAUTH2 = "oauth2:";
-const LOCAL_STORAGE_OAUTH2_KEY = "graffiti-auth-oauth2-data";
+// Keyed by state, so multiple logins can redirect at once
+const LOCAL_STORAGE_OAUTH2_KEY_PREFIX = "graffiti-auth-oauth2-data:";
+const LOCAL_STORAGE_OAUTH2_POPUP_KEY_PREFIX = "graffiti-auth-oauth2-popup:";
+// Logins that haven't completed by then were abandoned
+const LOCAL_STORAGE_OAUTH2_EXPIRATION_MS = 60 * 60 * 1000; // 1 hour
+const BROADCAST_CHANNEL_OAUTH2_POPUP = "graffiti-auth-oauth2-popup";
+const POPUP_WINDOW_NAME = "graffiti-login";
+const POPUP_WINDOW_FEATURES = "popup,width=500,height=700";
+const POPUP_CLOSED_CHECK_INTERVAL = 500;
+const DEFAULT_OAUTH2_CLIENT_ID = "graffiti-client";
+
+/**
+ * How the user is sent to the authorization server.
+ * In the browser, a `"redirect"` navigates the whole page away and back,
+ * while a `"popup"` opens the authorization server in a child window so
+ * the page keeps its state.
+ * In node, `"loopback"` receives the callback on a local server, while
+ * `"device"` uses the OAuth device authorization grant (RFC 8628) so the
+ * login can be completed from any other device. If no flow is specified,
+ * node uses `"device"` whenever the authorization server supports it.
+ */
+export type AuthorizationFlow = "redirect" | "popup" | "loopback" | "device";
+
+/**
+ * Authorizes services whose authorization endpoint starts with a
+ * particular method prefix (e.g. `"bearer:"`), as an alternative
+ * to the built-in `"oauth2:"` method.
+ */
+export interface AuthorizationMethod {
+  login(
+    authorizationEndpoint: string,
+    serviceEndpoints: string[],
+  ): Promise<AuthorizationGrant>;
+  refresh?(
+    authorizationEndpoint: string,
+    refreshToken: string,
+  ): Promise<AuthorizationGrant>;
+  logout?(
+    authorizationEndpoint: string,
+    token: string,
+    refreshToken?: string,
+  ): Promise<void>;
+}
+
+export interface AuthorizationOptions {
+  clientId?: string;
+  clientMetadata?: Partial<ClientMetadata>;
+  flow?: AuthorizationFlow;
+  methods?: { [prefix: string]: AuthorizationMethod };
+}
 
 export class Authorization {
   eventTarget: EventTarget = new EventTarget();
 
-  constructor() {
+  constructor(protected readonly options?: AuthorizationOptions) {
     // Extract oauth redirect synchronously so the route
     // can be changed before any SPA routers (e.g. vue router)
     // start messing with things
     const oauthPromise = this.completeOauth();
+    this.expireStoredLogins();
 
     (async () => {
       // Allow listeners to be added first
@@ -59,17 +118,93 @@ export class Authorization {
     authorizationEndpoint: string,
     loginId: string,
     serviceEndpoints: string[],
+    openedPopup?: Window,
+  ): Promise<void> {
+    const method = this.getAuthorizationMethod(authorizationEndpoint);
+    if (method) {
+      const grant = await method.login(authorizationEndpoint, serviceEndpoints);
+      const loginEvent: LoginEvent = new CustomEvent("login", {
+        detail: { loginId, ...grant },
+      });
+      this.eventTarget.dispatchEvent(loginEvent);
+      return;
+    }
+
+    // Logins that don't start from a click (e.g. ones chained
+    // after a previous authorization endpoint) reuse the popup
+    // that is already open, if there is one
+    const popup = openedPopup ?? this.openPopup();
+    try {
+      await this.requestAuthorization(
+        authorizationEndpoint,
+        loginId,
+        serviceEndpoints,
+        popup,
+      );
+    } finally {
+      if (popup && !openedPopup) this.releasePopup();
+    }
+  }
+
+  /**
+   * Opens the login popup, if logins use the `"popup"` flow.
+   * Browsers only allow popups that are opened while handling a
+   * user gesture, so this must be called synchronously from the click
+   * that starts the login and the popup passed down to {@link login}.
+   * The caller must call {@link releasePopup} once the login is over.
+   */
+  openPopup(): Window | undefined {
+    if (typeof window === "undefined" || this.options?.flow !== "popup") {
+      return undefined;
+    }
+    return this.acquirePopup();
+  }
+  protected async requestAuthorization(
+    authorizationEndpoint: string,
+    loginId: string,
+    serviceEndpoints: string[],
+    popup: Window | undefined,
   ): Promise<void> {
     const configuration = await this.getAuthorizationConfiguration(
       authorizationEndpoint,
     );
 
+    if (this.usesDeviceFlow(configuration)) {
+      return await this.requestDeviceAuthorization(
+        loginId,
+        configuration,
+        serviceEndpoints,
+      );
+    }
+
     const scope = serviceEndpoints.map(encodeURIComponent).join(" ");
     const state = randomState();
+    const codeVerifier = randomPKCECodeVerifier();
+    const codeChallenge = await calculatePKCECodeChallenge(codeVerifier);
 
     let redirectUri: string;
     let waitForCallback: Promise<void> | undefined = undefined;
-    if (typeof window !== "undefined") {
+    if (typeof window !== "undefined" && popup) {
+      if (popup.closed) throw new Error("The login popup was closed.");
+      // If in a browser popup, mark the state as belonging to
+      // a popup and wait for the popup to send back the callback
+      redirectUri = window.location.href;
+      window.localStorage.setItem(
+        `${LOCAL_STORAGE_OAUTH2_POPUP_KEY_PREFIX}${state}`,
+        String(Date.now()),
+      );
+      waitForCallback = this.waitForPopupCallback(state, popup).then(
+        (callbackUrl) =>
+          this.onCallbackUrl({
+            loginId,
+            callbackUrl,
+            configuration,
+            expectedState: state,
+            codeVerifier,
+            serviceEndpoints,
+          }),
+      );
+    } else if (typeof window !== "undefined") {
       // If in a browser, prepare for a redirect by
       // storing the configuration, expected state,
       // current URL, and endpoints in local storage
@@ -79,10 +214,12 @@ export class Authorization {
         redirectUri,
         authorizationEndpoint,
         state,
+        codeVerifier,
         serviceEndpoints,
+        startedAt: Date.now(),
       };
       window.localStorage.setItem(
-        LOCAL_STORAGE_OAUTH2_KEY,
+        `${LOCAL_STORAGE_OAUTH2_KEY_PREFIX}${state}`,
         JSON.stringify(data),
       );
     } else {
@@ -147,6 +284,7 @@ export class Authorization {
               callbackUrl,
               configuration,
               expectedState: state,
+              codeVerifier,
               serviceEndpoints,
             });
 
@@ -184,10 +322,16 @@ export class Authorization {
       scope,
       redirect_uri: redirectUriStripped.toString(),
       state,
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
     });
 
-    // Either redirect (browser) or print the URL and wait (node)
-    if (typeof window !== "undefined") {
+    // Either open the popup or redirect (browser)
+    // or print the URL and wait (node)
+    if (typeof window !== "undefined" && popup) {
+      popup.location.href = redirectTo.toString();
+      await waitForCallback;
+    } else if (typeof window !== "undefined") {
       window.location.href = redirectTo.toString();
     } else {
       console.log("Please open the following URL in your browser:");
@@ -196,11 +340,173 @@ export class Authorization {
     }
   }
 
+  protected usesDeviceFlow(configuration: Configuration): boolean {
+    const flow = this.options?.flow;
+    if (flow === "device") return true;
+    if (typeof window !== "undefined" || flow === "loopback") return false;
+    return !!configuration.serverMetadata().device_authorization_endpoint;
+  }
+
+  protected async requestDeviceAuthorization(
+    loginId: string,
+    configuration: Configuration,
+    serviceEndpoints: string[],
+  ): Promise<void> {
+    const scope = serviceEndpoints.map(encodeURIComponent).join(" ");
+    const deviceResponse = await initiateDeviceAuthorization(configuration, {
+      scope,
+    });
+
+    // The complete URI already includes the code,
+    // so the user only needs to confirm that it matches
+    const completeUri = deviceResponse.verification_uri_complete;
+    console.log("Please open the following URL in any browser:");
+    console.log(completeUri ?? deviceResponse.verification_uri);
+    console.log(
+      `and ${completeUri ? "confirm" : "enter"} the code: ${deviceResponse.user_code}`,
+    );
+
+    // Polls until the user approves, denies,
+    // or the device code expires
+    const response = await pollDeviceAuthorizationGrant(
+      configuration,
+      deviceResponse,
+    );
+    this.onTokenResponse({ loginId, response, serviceEndpoints });
+  }
+
+  protected popup: Window | null = null;
+  protected popupLoginsInProgress = 0;
+  protected acquirePopup(): Window {
+    this.popupLoginsInProgress++;
+    if (!this.popup || this.popup.closed) {
+      this.popup = window.open("", POPUP_WINDOW_NAME, POPUP_WINDOW_FEATURES);
+    }
+    if (!this.popup) {
+      this.popupLoginsInProgress--;
+      throw new Error("The login popup was blocked by the browser.");
+    }
+    return this.popup;
+  }
+  /**
+   * Releases a popup from {@link openPopup}, closing
+   * it if no other login is still using it.
+   */
+  releasePopup() {
+    this.popupLoginsInProgress--;
+    // Logins across multiple authorization endpoints are
+    // chained as soon as each one completes, so only close the
+    // popup if nothing picks it back up after the current task
+    setTimeout(() => {
+      if (this.popupLoginsInProgress > 0) return;
+      this.popup?.close();
+      this.popup = null;
+    }, 0);
+  }
+
+  protected waitForPopupCallback(
+    expectedState: string,
+    popup: Window,
+  ): Promise<URL> {
+    return new Promise<URL>((resolve, reject) => {
+      const channel = new BroadcastChannel(BROADCAST_CHANNEL_OAUTH2_POPUP);
+      const stop = () => {
+        clearTimeout(timeout);
+        clearInterval(closedInterval);
+        channel.close();
+      };
+      const fail = (error: Error) => {
+        stop();
+        window.localStorage.removeItem(
+          `${LOCAL_STORAGE_OAUTH2_POPUP_KEY_PREFIX}${expectedState}`,
+        );
+        reject(error);
+      };
+      const timeout = setTimeout(
+        () => fail(new Error("Oauth popup timed out.")),
+        5 * 60 * 1000, // 5 minutes
+      );
+      // There is no event for a window closing,
+      // so check on it until the callback arrives
+      const closedInterval = setInterval(() => {
+        if (popup.closed) fail(new Error("The login popup was closed."));
+      }, POPUP_CLOSED_CHECK_INTERVAL);
+
+      channel.addEventListener("message", (event) => {
+        const parsed = OAuth2PopupCallbackSchema.safeParse(event.data);
+        if (!parsed.success) return;
+        const callbackUrl = new URL(parsed.data.callbackUrl);
+        if (callbackUrl.searchParams.get("state") !== expectedState) return;
+
+        stop();
+        resolve(callbackUrl);
+      });
+    });
+  }
+
+  /**
+   * Removes the local storage entries of logins that were
+   * abandoned partway through, such as by closing the tab
+   * before the authorization server redirected back.
+   */
+  protected expireStoredLogins() {
+    if (typeof window === "undefined") return;
+
+    const expired: string[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (!key) continue;
+
+      let startedAt: number | undefined;
+      if (key.startsWith(LOCAL_STORAGE_OAUTH2_POPUP_KEY_PREFIX)) {
+        startedAt = Number(window.localStorage.getItem(key));
+      } else if (key.startsWith(LOCAL_STORAGE_OAUTH2_KEY_PREFIX)) {
+        try {
+          startedAt = OAuth2LoginStartSchema.parse(
+            JSON.parse(window.localStorage.getItem(key) ?? "null"),
+          ).startedAt;
+        } catch {
+          // Unreadable, so it can't be completed anyway
+        }
+      } else {
+        continue;
+      }
+
+      if (
+        startedAt === undefined ||
+        !(Date.now() - startedAt <= LOCAL_STORAGE_OAUTH2_EXPIRATION_MS)
+      ) {
+        expired.push(key);
+      }
+    }
+    // Removing while iterating would shift the indices
+    for (const key of expired) window.localStorage.removeItem(key);
+  }
+
   protected completeOauth() {
     if (typeof window === "undefined") return;
 
+    // If this window is a login popup, hand the
+    // callback back to the window that opened it
+    const callbackState = new URLSearchParams(window.location.search).get(
+      "state",
+    );
+    if (!callbackState) return;
+    const popupKey = `${LOCAL_STORAGE_OAUTH2_POPUP_KEY_PREFIX}${callbackState}`;
+    if (window.localStorage.getItem(popupKey) !== null) {
+      window.localStorage.removeItem(popupKey);
+      const channel = new BroadcastChannel(BROADCAST_CHANNEL_OAUTH2_POPUP);
+      const message: infer_<typeof OAuth2PopupCallbackSchema> = {
+        callbackUrl: window.location.href,
+      };
+      channel.postMessage(message);
+      channel.close();
+      return;
+    }
+
     // Look in local storage to see if we have a pending login
-    const data = window.localStorage.getItem(LOCAL_STORAGE_OAUTH2_KEY);
+    const dataKey = `${LOCAL_STORAGE_OAUTH2_KEY_PREFIX}${callbackState}`;
+    const data = window.localStorage.getItem(dataKey);
     if (!data) return;
 
     let json: unknown;
@@ -208,7 +514,7 @@ export class Authorization {
       json = JSON.parse(data);
     } catch {
       console.error("Invalid OAuth2 login data in local storage.");
-      window.localStorage.removeItem(LOCAL_STORAGE_OAUTH2_KEY);
+      window.localStorage.removeItem(dataKey);
       return;
     }
 
@@ -218,7 +524,7 @@ export class Authorization {
         "Invalid OAuth2 login data structure in local storage.",
         parseResult.error,
       );
-      window.localStorage.removeItem(LOCAL_STORAGE_OAUTH2_KEY);
+      window.localStorage.removeItem(dataKey);
       return;
     }
 
@@ -227,6 +533,7 @@ export class Authorization {
       redirectUri,
       authorizationEndpoint,
       state,
+      codeVerifier,
       serviceEndpoints,
     } = parseResult.data;
 
@@ -242,7 +549,7 @@ export class Authorization {
       // Restore the hash and query parameters to the expected URL,
       // removing the code, state, and error parameters
       window.history.replaceState({}, document.title, expectedUrl.toString());
-      window.localStorage.removeItem(LOCAL_STORAGE_OAUTH2_KEY);
+      window.localStorage.removeItem(dataKey);
 
       return new Promise<void>((resolve) => setTimeout(resolve, 0))
         .then(() => this.getAuthorizationConfiguration(authorizationEndpoint))
@@ -252,6 +559,7 @@ export class Authorization {
             callbackUrl,
             configuration,
             expectedState: state,
+            codeVerifier,
             serviceEndpoints,
           }),
         )
@@ -268,8 +576,9 @@ export class Authorization {
   protected async onCallbackUrl(args: {
     loginId: string;
     callbackUrl: URL;
-    configuration: any;
+    configuration: Configuration;
     expectedState: string;
+    codeVerifier: string;
     serviceEndpoints: string[];
   }) {
     const {
@@ -277,14 +586,26 @@ export class Authorization {
       callbackUrl,
       configuration,
       expectedState,
+      codeVerifier,
       serviceEndpoints,
     } = args;
 
     const response = await authorizationCodeGrant(configuration, callbackUrl, {
       expectedState,
+      pkceCodeVerifier: codeVerifier,
     });
 
-    const token = response.access_token;
+    this.onTokenResponse({ loginId, response, serviceEndpoints });
+  }
+
+  protected onTokenResponse(args: {
+    loginId: string;
+    response: TokenResponse;
+    serviceEndpoints: string[];
+  }) {
+    const { loginId, response, serviceEndpoints } = args;
+
+    const grant = tokenResponseToGrant(response);
     const scope = response.scope;
     const grantedEndpoints =
       scope?.split(" ").map(decodeURIComponent) || serviceEndpoints;
@@ -300,19 +621,44 @@ export class Authorization {
     const loginEvent: LoginEvent = new CustomEvent("login", {
       detail: {
         loginId,
-        token,
+        ...grant,
       },
     });
     this.eventTarget.dispatchEvent(loginEvent);
   }
 
+  async refresh(
+    authorizationEndpoint: string,
+    refreshToken: string,
+  ): Promise<AuthorizationGrant> {
+    const method = this.getAuthorizationMethod(authorizationEndpoint);
+    if (method) {
+      if (!method.refresh) {
+        throw new Error(
+          `Authorization endpoint ${authorizationEndpoint} does not support refreshing`,
+        );
+      }
+      return await method.refresh(authorizationEndpoint, refreshToken);
+    }
+
+    const configuration = await this.getAuthorizationConfiguration(
+      authorizationEndpoint,
+    );
+    const response = await refreshTokenGrant(configuration, refreshToken);
+    const grant = tokenResponseToGrant(response);
+    // Servers are not required to rotate refresh tokens,
+    // so keep using the old one if no new one is issued
+    return { refreshToken, ...grant };
+  }
+
   async logout(
     authorizationEndpoint: string,
     logoutId: string,
     token: string,
+    refreshToken?: string,
   ): Promise<void> {
     try {
-      await this.logout_(authorizationEndpoint, logoutId, token);
+      await this.logout_(authorizationEndpoint, logoutId, token, refreshToken);
     } catch (e) {
       const error = e instanceof Error ? e : new Error("Unknown error");
       const detail: LogoutEvent["detail"] = { logoutId, error };
@@ -323,18 +669,50 @@ export class Authorization {
     authorizationEndpoint: string,
     logoutId: string,
     token: string,
+    refreshToken?: string,
+  ): Promise<void> {
+    await this.revoke(authorizationEndpoint, token, refreshToken);
+    const detail: LogoutEvent["detail"] = { logoutId };
+    this.eventTarget.dispatchEvent(new CustomEvent("logout", { detail }));
+  }
+
+  /**
+   * Revokes a token, and its refresh token if given,
+   * without dispatching any events.
+   */
+  async revoke(
+    authorizationEndpoint: string,
+    token: string,
+    refreshToken?: string,
   ): Promise<void> {
+    const method = this.getAuthorizationMethod(authorizationEndpoint);
+    if (method) {
+      await method.logout?.(authorizationEndpoint, token, refreshToken);
+      return;
+    }
     const configuration = await this.getAuthorizationConfiguration(
       authorizationEndpoint,
     );
     await tokenRevocation(configuration, token);
-    const detail: LogoutEvent["detail"] = { logoutId };
-    this.eventTarget.dispatchEvent(new CustomEvent("logout", { detail }));
+    if (refreshToken) {
+      await tokenRevocation(configuration, refreshToken);
+    }
+  }
+
+  protected getAuthorizationMethod(
+    authorizationEndpoint: string,
+  ): AuthorizationMethod | undefined {
+    // Prefer the most specific matching prefix
+    const prefix = Object.keys(this.options?.methods ?? {})
+      .filter((prefix) => authorizationEndpoint.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)
+      .at(0);
+    return prefix !== undefined ? this.options?.methods?.[prefix] : undefined;
   }
 
   protected async getAuthorizationConfiguration(
     authorizationEndpoint: string,
-  ): Promise<any> {
+  ): Promise<Configuration> {
     // Parse the authorization endpoint
     if (
       !authorizationEndpoint.startsWith(
@@ -357,16 +735,45 @@ export class Authorization {
       throw new Error("Invalid issuer URL.");
     }
 
-    return await discovery(issuerUrl, "graffiti-client");
+    return await discovery(
+      issuerUrl,
+      this.options?.clientId ?? DEFAULT_OAUTH2_CLIENT_ID,
+      this.options?.clientMetadata,
+    );
   }
 }
 
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  scope?: string;
+  expiresIn(): number | undefined;
+}
+
+function tokenResponseToGrant(response: TokenResponse): AuthorizationGrant {
+  const expiresIn = response.expiresIn();
+  return {
+    token: response.access_token,
+    ...(response.refresh_token ? { refreshToken: response.refresh_token } : {}),
+    ...(expiresIn !== undefined
+      ? { expiresAt: Date.now() + expiresIn * 1000 }
+      : {}),
+  };
+}
+
+export const AuthorizationGrantSchema = object({
+  token: string(),
+  refreshToken: optional(string()),
+  expiresAt: optional(number()),
+});
+export type AuthorizationGrant = infer_<typeof AuthorizationGrantSchema>;
+
 export const LoginEventDetailSchema = intersection(
   object({
     loginId: string(),
   }),
   union([
-    object({ token: string(), error: optional(undefined_()) }),
+    extend(AuthorizationGrantSchema, { error: optional(undefined_()) }),
     object({ error: instanceof_(Error) }),
   ]),
 );
@@ -390,10 +797,18 @@ export type InitializedEvent = CustomEvent<
   infer_<typeof InitializedEventDetailSchema>
 >;
 
+const OAuth2PopupCallbackSchema = object({
+  callbackUrl: url(),
+});
+
 const OAuth2LoginDataSchema = object({
   loginId: string(),
   redirectUri: url(),
   authorizationEndpoint: url(),
   state: string(),
+  codeVerifier: string(),
   serviceEndpoints: array(url()),
+  // When the login began, in milliseconds since the epoch
+  startedAt: optional(number()),
 });
+const OAuth2LoginStartSchema = object({ startedAt: optional(number()) });
@@ -0,0 +1,208 @@
+import type { DIDDocument } from "did-resolver";
+import type { IDBPDatabase } from "idb";
+import {
+  looseObject,
+  number,
+  object,
+  record,
+  string,
+  unknown as unknown_,
+} from "zod/mini";
+import { importFs, isErrorWithCode } from "./utilities";
+
+export interface CachedDIDDocument {
+  document: DIDDocument;
+  /**
+   * When the document should be resolved again,
+   * in milliseconds since the epoch.
+   */
+  expiresAt: number;
+}
+
+/**
+ * Stores resolved DID documents so they
+ * don't need to be fetched again until they expire.
+ */
+export interface DIDDocumentCache {
+  get(did: string): Promise<CachedDIDDocument | undefined>;
+  set(did: string, value: CachedDIDDocument): Promise<void>;
+  del(did: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Keeps the most recently used DID documents in memory.
+ */
+export class MemoryDIDDocumentCache implements DIDDocumentCache {
+  // Maps iterate in insertion order, so re-inserting
+  // on every access keeps the least recently used first
+  protected readonly entries = new Map<string, CachedDIDDocument>();
+
+  constructor(protected readonly maxEntries = 1000) {}
+
+  async get(did: string) {
+    const entry = this.entries.get(did);
+    if (entry) {
+      this.entries.delete(did);
+      this.entries.set(did, entry);
+    }
+    return entry;
+  }
+  async set(did: string, value: CachedDIDDocument) {
+    this.entries.delete(did);
+    this.entries.set(did, value);
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+  async del(did: string) {
+    this.entries.delete(did);
+  }
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Persists DID documents in IndexedDB, so they survive reloads.
+ * If IndexedDB is unavailable, documents are only kept in memory.
+ */
+export class IndexedDBDIDDocumentCache implements DIDDocumentCache {
+  protected db_: Promise<IDBPDatabase | MemoryDIDDocumentCache> | undefined;
+  protected get db() {
+    if (!this.db_) {
+      this.db_ = (async () => {
+        try {
+          const { openDB } = await import("idb");
+          return await openDB(IDB_DATABASE_NAME, 1, {
+            upgrade(db) {
+              if (!db.objectStoreNames.contains(IDB_STORE_NAME)) {
+                db.createObjectStore(IDB_STORE_NAME);
+              }
+            },
+          });
+        } catch (error) {
+          console.error("Error opening DID cache, using memory:", error);
+          return new MemoryDIDDocumentCache();
+        }
+      })();
+    }
+    return this.db_;
+  }
+
+  async get(did: string) {
+    const db = await this.db;
+    if (db instanceof MemoryDIDDocumentCache) return db.get(did);
+    try {
+      return (await db.get(IDB_STORE_NAME, did)) as
+        CachedDIDDocument | undefined;
+    } catch (error) {
+      console.error("Error getting DID document from cache:", error);
+      return undefined;
+    }
+  }
+  async set(did: string, value: CachedDIDDocument) {
+    const db = await this.db;
+    if (db instanceof MemoryDIDDocumentCache) return db.set(did, value);
+    await db.put(IDB_STORE_NAME, value, did);
+  }
+  async del(did: string) {
+    const db = await this.db;
+    if (db instanceof MemoryDIDDocumentCache) return db.del(did);
+    await db.delete(IDB_STORE_NAME, did);
+  }
+  async clear() {
+    const db = await this.db;
+    if (db instanceof MemoryDIDDocumentCache) return db.clear();
+    await db.clear(IDB_STORE_NAME);
+  }
+}
+
+/**
+ * Persists DID documents in a JSON file for Node.js,
+ * so they survive process restarts.
+ */
+export class FileDIDDocumentCache implements DIDDocumentCache {
+  // Serialize file access so concurrent writes don't clobber each other
+  protected lock: Promise<unknown> = Promise.resolve();
+
+  constructor(protected readonly options: { path: string }) {}
+
+  async get(did: string) {
+    return await this.withLock(async () => (await this.read())[did]);
+  }
+  async set(did: string, value: CachedDIDDocument) {
+    await this.withLock(async () => {
+      const entries = await this.read();
+      // Drop anything that has expired while we're at it
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(entries)) {
+        if (entry.expiresAt <= now) delete entries[key];
+      }
+      entries[did] = value;
+      await this.write(entries);
+    });
+  }
+  async del(did: string) {
+    await this.withLock(async () => {
+      const entries = await this.read();
+      if (!(did in entries)) return;
+      delete entries[did];
+      await this.write(entries);
+    });
+  }
+  async clear() {
+    await this.withLock(() => this.write({}));
+  }
+
+  protected withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn);
+    this.lock = result.catch(() => {});
+    return result;
+  }
+
+  protected async read(): Promise<{ [did: string]: CachedDIDDocument }> {
+    const fs = await importFs();
+    let json: unknown;
+    try {
+      json = JSON.parse(await fs.readFile(this.options.path, "utf8"));
+    } catch (error) {
+      if (!isErrorWithCode(error, "ENOENT")) {
+        console.error("Error reading DID cache, starting over:", error);
+      }
+      return {};
+    }
+
+    const file = record(string(), unknown_()).safeParse(json);
+    if (!file.success) {
+      console.error("DID cache is invalid, starting over");
+      return {};
+    }
+    // Skip invalid entries rather than trusting
+    // whatever ended up in the file
+    const entries: { [did: string]: CachedDIDDocument } = {};
+    for (const [did, entry] of Object.entries(file.data)) {
+      const parsed = CachedDIDDocumentSchema.safeParse(entry);
+      if (parsed.success && parsed.data.document.id === did) {
+        entries[did] = parsed.data as CachedDIDDocument;
+      }
+    }
+    return entries;
+  }
+
+  protected async write(entries: { [did: string]: CachedDIDDocument }) {
+    const fs = await importFs();
+    const temporaryPath = `${this.options.path}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(entries), "utf8");
+    await fs.rename(temporaryPath, this.options.path);
+  }
+}
+
+const CachedDIDDocumentSchema = object({
+  document: looseObject({ id: string() }),
+  expiresAt: number(),
+});
+
+const IDB_DATABASE_NAME = "graffiti-did-cache";
+const IDB_STORE_NAME = "d";
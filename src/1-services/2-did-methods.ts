@@ -0,0 +1,360 @@
+import type {
+  DIDDocument,
+  DIDResolutionResult,
+  ParsedDID,
+  ResolverRegistry,
+  Service,
+  VerificationMethod,
+} from "did-resolver";
+import { StringEncoder } from "../2-primitives/1-string-encoding";
+
+// https://github.com/multiformats/multicodec/blob/master/table.csv
+const MULTICODEC_PUBLIC_KEYS: {
+  [code: number]: { length: number; keyAgreement?: boolean };
+} = {
+  0xed: { length: 32 }, // ed25519-pub
+  0xec: { length: 32, keyAgreement: true }, // x25519-pub
+  0xe7: { length: 33 }, // secp256k1-pub
+  0x1200: { length: 33 }, // p256-pub
+  0x1201: { length: 49 }, // p384-pub
+};
+
+// https://github.com/multiformats/multibase/blob/master/multibase.csv
+const MULTIBASE_PREFIX_BASE58BTC = "z";
+const BASE58BTC_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+const DID_CONTEXTS = [
+  "https://www.w3.org/ns/did/v1",
+  "https://w3id.org/security/multikey/v1",
+];
+
+/**
+ * Resolves [did:key](https://w3c-ccg.github.io/did-key-spec/)
+ * identifiers, whose documents are derived entirely
+ * from the public key in the identifier.
+ */
+export function getKeyResolver(): ResolverRegistry {
+  return {
+    key: async (did, parsed) => {
+      try {
+        return resolved(await keyToDocument(did, parsed.id, parsed.id));
+      } catch (e) {
+        return invalidDid(e);
+      }
+    },
+  };
+}
+
+/**
+ * Resolves [did:peer](https://identity.foundation/peer-did-method-spec/)
+ * identifiers with numeric algorithm 0, a single inception key,
+ * or 2, multiple inception keys and services.
+ */
+export function getPeerResolver(): ResolverRegistry {
+  const stringEncoder = new StringEncoder();
+  return {
+    peer: async (did, parsed) => {
+      try {
+        const numalgo = parsed.id[0];
+        if (numalgo === "0") {
+          const key = parsed.id.slice(1);
+          return resolved(await keyToDocument(did, key, key.slice(1)));
+        } else if (numalgo === "2") {
+          return resolved(await peer2ToDocument(did, parsed.id, stringEncoder));
+        } else {
+          throw new Error(`Unsupported did:peer algorithm: ${numalgo}`);
+        }
+      } catch (e) {
+        return invalidDid(e);
+      }
+    },
+  };
+}
+
+/**
+ * Resolves [did:web](https://w3c-ccg.github.io/did-method-web/)
+ * identifiers by fetching `did.json` over HTTPS, the same way
+ * web-did-resolver does. The request is made here rather than by
+ * the library so that how long the document may be cached for can
+ * be read from the response's `Cache-Control` or `Expires` headers.
+ * It is returned in milliseconds as `maxAge` in the resolution
+ * metadata.
+ */
+export function getWebResolver(): ResolverRegistry {
+  return {
+    web: async (did, parsed) => {
+      let response: Response;
+      let didDocument: DIDDocument;
+      try {
+        response = await fetch(webDidToUrl(parsed), { mode: "cors" });
+        if (!response.ok) {
+          throw new Error(`Bad response ${response.statusText}`);
+        }
+        didDocument = await response.json();
+      } catch (e) {
+        return notFound(
+          `resolver_error: DID must resolve to a valid https URL containing a JSON document: ${e}`,
+        );
+      }
+      if (didDocument?.id !== did) {
+        return notFound(
+          "resolver_error: DID document id does not match requested did",
+        );
+      }
+
+      const result = resolved(didDocument);
+      const maxAge = cacheHeadersToMaxAge(response.headers);
+      if (maxAge !== undefined) {
+        result.didResolutionMetadata.maxAge = maxAge;
+      }
+      return result;
+    },
+  };
+}
+
+function webDidToUrl(parsed: ParsedDID): string {
+  const segments = parsed.id.split(":").map(decodeURIComponent);
+  const path =
+    segments.length > 1
+      ? segments.join("/") + "/did.json"
+      : segments[0] + "/.well-known/did.json";
+  return `https://${path}`;
+}
+
+/**
+ * How long a response may be cached for, in milliseconds,
+ * according to its headers, or `undefined` if they don't say.
+ */
+export function cacheHeadersToMaxAge(headers: Headers): number | undefined {
+  const cacheControl = headers.get("Cache-Control")?.toLowerCase();
+  if (cacheControl) {
+    const directives = cacheControl.split(",").map((d) => d.trim());
+    if (directives.some((d) => d === "no-store" || d === "no-cache")) {
+      return 0;
+    }
+    const maxAge = directives
+      .find((d) => d.startsWith("max-age="))
+      ?.slice("max-age=".length);
+    if (maxAge !== undefined && /^\d+$/.test(maxAge)) {
+      return Number(maxAge) * 1000;
+    }
+  }
+
+  const expires = headers.get("Expires");
+  if (expires) {
+    const expiresAt = Date.parse(expires);
+    // Invalid dates, like "0", mean already expired
+    return Number.isNaN(expiresAt) ? 0 : Math.max(0, expiresAt - Date.now());
+  }
+
+  return undefined;
+}
+
+async function keyToDocument(
+  did: string,
+  multibaseKey: string,
+  fragment: string,
+): Promise<DIDDocument> {
+  const { keyAgreement } = decodePublicKey(multibaseKey);
+
+  const verificationMethod: VerificationMethod = {
+    id: `${did}#${fragment}`,
+    type: "Multikey",
+    controller: did,
+    publicKeyMultibase: multibaseKey,
+  };
+  const id = verificationMethod.id;
+  return {
+    "@context": DID_CONTEXTS,
+    id: did,
+    verificationMethod: [verificationMethod],
+    ...(keyAgreement
+      ? { keyAgreement: [id] }
+      : {
+          authentication: [id],
+          assertionMethod: [id],
+          capabilityInvocation: [id],
+          capabilityDelegation: [id],
+        }),
+  };
+}
+
+// https://identity.foundation/peer-did-method-spec/#generation-method
+const PEER2_PURPOSES = {
+  A: "assertionMethod",
+  E: "keyAgreement",
+  V: "authentication",
+  I: "capabilityInvocation",
+  D: "capabilityDelegation",
+} as const;
+const PEER2_SERVICE_ABBREVIATIONS: { [abbreviation: string]: string } = {
+  t: "type",
+  s: "serviceEndpoint",
+  r: "routingKeys",
+  a: "accept",
+};
+const PEER2_SERVICE_TYPE_ABBREVIATIONS: { [abbreviation: string]: string } = {
+  dm: "DIDCommMessaging",
+};
+
+async function peer2ToDocument(
+  did: string,
+  id: string,
+  stringEncoder: StringEncoder,
+): Promise<DIDDocument> {
+  const document: DIDDocument = {
+    "@context": DID_CONTEXTS,
+    id: did,
+  };
+
+  const [_, ...elements] = id.split(".");
+  for (const element of elements) {
+    const purpose = element[0];
+    const value = element.slice(1);
+
+    if (purpose === "S") {
+      // Services are base64url encoded, without a multibase prefix
+      const bytes = await stringEncoder.decode("u" + value);
+      const service = expandPeer2Service(
+        JSON.parse(new TextDecoder().decode(bytes)),
+      );
+      const index = document.service?.length ?? 0;
+      document.service = [
+        ...(document.service ?? []),
+        {
+          ...service,
+          id:
+            typeof service.id === "string"
+              ? service.id
+              : index === 0
+                ? "#service"
+                : `#service-${index}`,
+        } as Service,
+      ];
+    } else if (purpose in PEER2_PURPOSES) {
+      decodePublicKey(value);
+      const verificationMethod: VerificationMethod = {
+        id: `#key-${(document.verificationMethod?.length ?? 0) + 1}`,
+        type: "Multikey",
+        controller: did,
+        publicKeyMultibase: value,
+      };
+      document.verificationMethod = [
+        ...(document.verificationMethod ?? []),
+        verificationMethod,
+      ];
+      const relationship =
+        PEER2_PURPOSES[purpose as keyof typeof PEER2_PURPOSES];
+      document[relationship] = [
+        ...(document[relationship] ?? []),
+        verificationMethod.id,
+      ];
+    } else {
+      throw new Error(`Unrecognized did:peer purpose: ${purpose}`);
+    }
+  }
+
+  return document;
+}
+
+function expandPeer2Service(service: unknown): { [key: string]: unknown } {
+  if (typeof service !== "object" || service === null) {
+    throw new Error("did:peer service must be an object");
+  }
+
+  const expanded: { [key: string]: unknown } = {};
+  for (const [key, value] of Object.entries(service)) {
+    const expandedKey = PEER2_SERVICE_ABBREVIATIONS[key] ?? key;
+    if (expandedKey === "type" && typeof value === "string") {
+      expanded.type = PEER2_SERVICE_TYPE_ABBREVIATIONS[value] ?? value;
+    } else if (
+      expandedKey === "serviceEndpoint" &&
+      typeof value === "object" &&
+      value !== null &&
+      !Array.isArray(value)
+    ) {
+      expanded.serviceEndpoint = expandPeer2Service(value);
+    } else {
+      expanded[expandedKey] = value;
+    }
+  }
+  return expanded;
+}
+
+function decodePublicKey(multibaseKey: string) {
+  if (!multibaseKey.startsWith(MULTIBASE_PREFIX_BASE58BTC)) {
+    throw new Error("Public keys must be base58btc encoded");
+  }
+  const bytes = decodeBase58btc(multibaseKey.slice(1));
+  const { value: code, length: prefixLength } = decodeVarint(bytes);
+
+  const keyType = MULTICODEC_PUBLIC_KEYS[code];
+  if (!keyType) {
+    throw new Error(`Unsupported public key type: 0x${code.toString(16)}`);
+  }
+  if (bytes.length - prefixLength !== keyType.length) {
+    throw new Error("Public key has the wrong length");
+  }
+  return keyType;
+}
+
+// Only used for keys, so that base58btc is never
+// accepted anywhere else that multibase strings are decoded
+function decodeBase58btc(encoded: string): Uint8Array {
+  // Leading "1"s encode leading zero bytes
+  let zeros = 0;
+  while (zeros < encoded.length && encoded[zeros] === BASE58BTC_ALPHABET[0]) {
+    zeros++;
+  }
+
+  let value = 0n;
+  for (const char of encoded) {
+    const digit = BASE58BTC_ALPHABET.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid base58btc character: ${char}`);
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  return Uint8Array.from([...new Array(zeros).fill(0), ...bytes]);
+}
+
+function decodeVarint(bytes: Uint8Array): { value: number; length: number } {
+  let value = 0;
+  for (let i = 0; i < Math.min(bytes.length, 4); i++) {
+    value |= (bytes[i] & 0x7f) << (7 * i);
+    if (!(bytes[i] & 0x80)) return { value, length: i + 1 };
+  }
+  throw new Error("Invalid multicodec prefix");
+}
+
+function resolved(didDocument: DIDDocument): DIDResolutionResult {
+  return {
+    didResolutionMetadata: { contentType: "application/did+ld+json" },
+    didDocument,
+    didDocumentMetadata: {},
+  };
+}
+
+function notFound(message: string): DIDResolutionResult {
+  return {
+    didResolutionMetadata: { error: "notFound", message },
+    didDocument: null,
+    didDocumentMetadata: {},
+  };
+}
+
+function invalidDid(e: unknown): DIDResolutionResult {
+  return {
+    didResolutionMetadata: {
+      error: "invalidDid",
+      message: e instanceof Error ? e.message : String(e),
+    },
+    didDocument: null,
+    didDocumentMetadata: {},
+  };
+}
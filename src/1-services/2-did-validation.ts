@@ -0,0 +1,158 @@
+import { GraffitiErrorNotFound } from "@graffiti-garden/api";
+import type { DIDDocument, Service } from "did-resolver";
+import { isHTTPSEndpoint } from "./utilities";
+
+export const DID_SERVICE_TYPE_GRAFFITI_INBOX = "GraffitiInbox";
+export const DID_SERVICE_TYPE_GRAFFITI_STORAGE_BUCKET = "GraffitiStorageBucket";
+export const DID_SERVICE_ID_GRAFFITI_PERSONAL_INBOX = "#graffitiPersonalInbox";
+export const DID_SERVICE_ID_GRAFFITI_STORAGE_BUCKET = "#graffitiStorageBucket";
+export const DID_SERVICE_ID_GRAFFITI_SHARED_INBOX_PREFIX =
+  "#graffitiSharedInbox_";
+
+export interface DIDValidationOptions {
+  /**
+   * If given, Graffiti services may only be hosted on these hosts.
+   * Entries are host names, optionally with a port, like
+   * `example.com` or `localhost:5173`. An entry like
+   * `*.example.com` matches any subdomain of `example.com`.
+   */
+  allowedServiceHosts?: string[];
+  /**
+   * Graffiti services may not be hosted on these hosts,
+   * in the same format as `allowedServiceHosts`.
+   */
+  deniedServiceHosts?: string[];
+}
+
+/**
+ * Checks that a resolved document belongs to the requested DID and
+ * that its Graffiti services are well formed, returning a copy with
+ * service ids made relative and service endpoints normalized.
+ * Services that aren't Graffiti services are passed through untouched.
+ */
+export function validateDidDocument(
+  did: string,
+  document: DIDDocument,
+  options?: DIDValidationOptions,
+): DIDDocument {
+  if (document.id !== did) {
+    throw invalid(did, `document id ${document.id} does not match`);
+  }
+  if (document.service === undefined) return document;
+  if (!Array.isArray(document.service)) {
+    throw invalid(did, "services are not a list");
+  }
+
+  const ids = new Set<string>();
+  const service = document.service.map((service) => {
+    if (typeof service?.id !== "string") {
+      throw invalid(did, "a service has no id");
+    }
+    // Absolute ids, like did:example:123#service, are equivalent
+    // to relative ones, like #service
+    const id = service.id.startsWith(`${did}#`)
+      ? service.id.slice(did.length)
+      : service.id;
+    const expectedType = graffitiServiceType(id);
+    if (!expectedType) {
+      if (id.startsWith("#graffiti")) {
+        throw invalid(did, `unrecognized Graffiti service id ${id}`);
+      }
+      return service;
+    }
+
+    if (ids.has(id)) {
+      throw invalid(did, `duplicate service id ${id}`);
+    }
+    ids.add(id);
+    if (service.type !== expectedType) {
+      throw invalid(did, `service ${id} should have type ${expectedType}`);
+    }
+    if (typeof service.serviceEndpoint !== "string") {
+      throw invalid(did, `service ${id} endpoint is not a string`);
+    }
+
+    let url: URL;
+    try {
+      url = new URL(service.serviceEndpoint);
+    } catch {
+      throw invalid(did, `service ${id} endpoint is not a URL`);
+    }
+    // Checked by the same rule as when the service is called,
+    // so nothing that passes here is rejected later
+    if (!isHTTPSEndpoint(url.href)) {
+      throw invalid(did, `service ${id} endpoint must use https`);
+    }
+    if (url.search || url.hash || url.username || url.password) {
+      throw invalid(did, `service ${id} endpoint must be a plain URL`);
+    }
+    if (
+      options?.allowedServiceHosts &&
+      !options.allowedServiceHosts.some((h) => hostMatches(url, h))
+    ) {
+      throw invalid(did, `service ${id} host ${url.host} is not allowed`);
+    }
+    if (options?.deniedServiceHosts?.some((h) => hostMatches(url, h))) {
+      throw invalid(did, `service ${id} host ${url.host} is denied`);
+    }
+
+    return {
+      ...service,
+      id,
+      serviceEndpoint: normalizeEndpoint(url),
+    } satisfies Service;
+  });
+
+  return { ...document, service };
+}
+
+function graffitiServiceType(id: string): string | undefined {
+  if (id === DID_SERVICE_ID_GRAFFITI_STORAGE_BUCKET) {
+    return DID_SERVICE_TYPE_GRAFFITI_STORAGE_BUCKET;
+  } else if (
+    id === DID_SERVICE_ID_GRAFFITI_PERSONAL_INBOX ||
+    SHARED_INBOX_ID_REGEX.test(id)
+  ) {
+    return DID_SERVICE_TYPE_GRAFFITI_INBOX;
+  }
+}
+
+/**
+ * Normalizes a service endpoint the same way endpoints in
+ * validated DID documents are, so endpoints stored before
+ * normalization can still be compared against them.
+ */
+export function normalizeServiceEndpoint(endpoint: string): string {
+  try {
+    return normalizeEndpoint(new URL(endpoint));
+  } catch {
+    return endpoint;
+  }
+}
+
+function normalizeEndpoint(url: URL): string {
+  // URLs already lowercase the scheme and host
+  // and drop default ports, so only the path is left.
+  // Trailing slashes are dropped because endpoints
+  // are joined with paths like `${endpoint}/key`
+  return url.origin + url.pathname.replace(/\/+$/, "");
+}
+
+function hostMatches(url: URL, entry: string): boolean {
+  const pattern = entry.toLowerCase();
+  const host = /:\d+$/.test(pattern) ? url.host : url.hostname;
+  if (pattern.startsWith("*.")) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+function invalid(did: string, reason: string) {
+  return new GraffitiErrorNotFound(
+    `DID document for ${did} is invalid: ${reason}`,
+  );
+}
+
+const SHARED_INBOX_ID_REGEX = new RegExp(
+  `^${DID_SERVICE_ID_GRAFFITI_SHARED_INBOX_PREFIX}\\d+$`,
+);
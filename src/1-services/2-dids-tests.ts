@@ -1,5 +1,16 @@
-import { describe, expect, test } from "vitest";
+import { afterAll, describe, expect, test, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { DecentralizedIdentifiers } from "./2-dids";
+import { cacheHeadersToMaxAge } from "./2-did-methods";
+import {
+  FileDIDDocumentCache,
+  IndexedDBDIDDocumentCache,
+  MemoryDIDDocumentCache,
+  type DIDDocumentCache,
+} from "./2-did-caches";
+import type { DIDDocument } from "did-resolver";
 
 export function didTests() {
   return describe("DecentralizedIdentifiers", () => {
@@ -20,5 +31,323 @@ export function didTests() {
       const result = await dids.resolve(did);
       expect(result).toHaveProperty("id", did);
     });
+
+    test("did:key", async () => {
+      // https://w3c-ccg.github.io/did-key-spec/#ed25519-x25519
+      const did = "did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK";
+      const result = await dids.resolve(did);
+      expect(result).toHaveProperty("id", did);
+      expect(result.verificationMethod?.[0].publicKeyMultibase).toBe(
+        "z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK",
+      );
+      await expect(
+        dids.resolve("did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2do"),
+      ).rejects.toThrowError();
+    });
+
+    test("did:peer", async () => {
+      const did0 = "did:peer:0z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK";
+      const result0 = await dids.resolve(did0);
+      expect(result0).toHaveProperty("id", did0);
+
+      const service = {
+        id: "#graffitiStorageBucket",
+        t: "GraffitiStorageBucket",
+        s: "https://example.com/bucket",
+      };
+      const encodedService = btoa(JSON.stringify(service))
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "");
+      const did2 = `did:peer:2.Vz6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK.S${encodedService}`;
+      const result2 = await dids.resolve(did2);
+      expect(result2).toHaveProperty("id", did2);
+      expect(result2.authentication).toEqual(["#key-1"]);
+      expect(result2.service).toEqual([
+        {
+          id: "#graffitiStorageBucket",
+          type: "GraffitiStorageBucket",
+          serviceEndpoint: "https://example.com/bucket",
+        },
+      ]);
+    });
+
+    test("custom methods", async () => {
+      const did = "did:example:123";
+      const custom = new DecentralizedIdentifiers({
+        methods: {
+          example: async () => ({
+            didResolutionMetadata: {},
+            didDocument: { id: did },
+            didDocumentMetadata: {},
+          }),
+        },
+      });
+      await expect(custom.resolve(did)).resolves.toHaveProperty("id", did);
+      await expect(dids.resolve(did)).rejects.toThrowError();
+    });
+
+    test("caches until expiry or invalidation", async () => {
+      const did = "did:example:123";
+      let resolutions = 0;
+      const cached = new DecentralizedIdentifiers({
+        cache: new MemoryDIDDocumentCache(),
+        cacheTtl: 50,
+        methods: {
+          example: async () => {
+            resolutions++;
+            return {
+              didResolutionMetadata: {},
+              didDocument: { id: did },
+              didDocumentMetadata: {},
+            };
+          },
+        },
+      });
+
+      await Promise.all([cached.resolve(did), cached.resolve(did)]);
+      expect(resolutions).toBe(1);
+      await cached.resolve(did);
+      expect(resolutions).toBe(1);
+
+      await cached.resolve(did, { noCache: true });
+      expect(resolutions).toBe(2);
+
+      await cached.invalidate(did);
+      await cached.resolve(did);
+      expect(resolutions).toBe(3);
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await cached.resolve(did);
+      expect(resolutions).toBe(4);
+    });
+
+    test("did:web caches by response headers", async () => {
+      const did = "did:web:web.example";
+      const requests: string[] = [];
+      let headers: HeadersInit = {};
+      vi.stubGlobal("fetch", async (url: string) => {
+        requests.push(url);
+        return new Response(JSON.stringify({ id: did }), { headers });
+      });
+      try {
+        const cached = new DecentralizedIdentifiers({
+          cache: new MemoryDIDDocumentCache(),
+        });
+        headers = { "Cache-Control": "max-age=0" };
+        await expect(cached.resolve(did)).resolves.toHaveProperty("id", did);
+        expect(requests).toEqual(["https://web.example/.well-known/did.json"]);
+        await cached.resolve(did);
+        expect(requests).toHaveLength(2);
+
+        headers = { "Cache-Control": "max-age=60" };
+        await cached.resolve(did);
+        await cached.resolve(did);
+        expect(requests).toHaveLength(3);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    test("cache headers to max age", () => {
+      const maxAge = (headers: HeadersInit) =>
+        cacheHeadersToMaxAge(new Headers(headers));
+      expect(maxAge({})).toBeUndefined();
+      expect(maxAge({ "Cache-Control": "public, max-age=60" })).toBe(60_000);
+      expect(maxAge({ "Cache-Control": "max-age=abc" })).toBeUndefined();
+      expect(maxAge({ "Cache-Control": "no-store" })).toBe(0);
+      expect(maxAge({ "Cache-Control": "max-age=60, no-cache" })).toBe(0);
+
+      const expires = new Date(Date.now() + 60_000).toUTCString();
+      expect(maxAge({ Expires: expires })).toBeGreaterThan(50_000);
+      expect(maxAge({ Expires: expires })).toBeLessThanOrEqual(60_000);
+      expect(maxAge({ Expires: new Date(0).toUTCString() })).toBe(0);
+      expect(maxAge({ Expires: "0" })).toBe(0);
+      // Cache-Control takes precedence over Expires
+      expect(maxAge({ "Cache-Control": "max-age=5", Expires: expires })).toBe(
+        5_000,
+      );
+    });
+
+    test("pinned documents", async () => {
+      const did = "did:web:identity.foundation";
+      const document = { id: did, service: [] };
+      const pinned = new DecentralizedIdentifiers({
+        pinned: { [did]: document },
+      });
+      await expect(pinned.resolve(did)).resolves.toEqual(document);
+      await expect(pinned.resolve(did, { noCache: true })).resolves.toEqual(
+        document,
+      );
+
+      // Pinned documents don't need a resolver for their method
+      const unknown = { id: "did:example:pinned" };
+      pinned.pin(unknown);
+      await expect(pinned.resolve(unknown.id)).resolves.toEqual(unknown);
+      pinned.unpin(unknown.id);
+      await expect(pinned.resolve(unknown.id)).rejects.toThrowError();
+    });
+
+    describe("pinned directory", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "graffiti-dids-"));
+      afterAll(() => rm(directory, { recursive: true, force: true }));
+
+      test("pins each document by id", async () => {
+        const did = "did:example:directory";
+        await writeFile(
+          join(directory, "example.json"),
+          JSON.stringify({ id: did }),
+        );
+        await writeFile(join(directory, "README.md"), "not a document");
+
+        const pinned = new DecentralizedIdentifiers({
+          pinnedDirectory: directory,
+        });
+        await expect(pinned.resolve(did)).resolves.toHaveProperty("id", did);
+      });
+
+      test("rejects documents without an id", async () => {
+        await writeFile(join(directory, "invalid.json"), "{}");
+        const pinned = new DecentralizedIdentifiers({
+          pinnedDirectory: directory,
+        });
+        await expect(pinned.resolve("did:example:directory")).rejects.toThrow(
+          "no valid id",
+        );
+      });
+    });
+
+    test("validates documents", async () => {
+      const did = "did:example:validated";
+      const validating = new DecentralizedIdentifiers({
+        deniedServiceHosts: ["*.denied.example"],
+      });
+      const resolveWith = (document: DIDDocument) => {
+        validating.pin(document);
+        return validating.resolve(did);
+      };
+      const bucket = {
+        id: `${did}#graffitiStorageBucket`,
+        type: "GraffitiStorageBucket",
+        serviceEndpoint: "HTTPS://Example.COM:443/Bucket/",
+      };
+
+      const result = await resolveWith({ id: did, service: [bucket] });
+      expect(result.service).toEqual([
+        {
+          id: "#graffitiStorageBucket",
+          type: "GraffitiStorageBucket",
+          serviceEndpoint: "https://example.com/Bucket",
+        },
+      ]);
+
+      await expect(
+        resolveWith({ id: did, service: [bucket, bucket] }),
+      ).rejects.toThrow("duplicate");
+      await expect(
+        resolveWith({
+          id: did,
+          service: [{ ...bucket, id: "#graffitiStorageBuckets" }],
+        }),
+      ).rejects.toThrow("unrecognized");
+      await expect(
+        resolveWith({ id: did, service: [{ ...bucket, type: "Other" }] }),
+      ).rejects.toThrow("type");
+      for (const serviceEndpoint of [
+        "http://example.com",
+        "http://localhost:5173",
+      ]) {
+        await expect(
+          resolveWith({ id: did, service: [{ ...bucket, serviceEndpoint }] }),
+        ).rejects.toThrow("https");
+      }
+      await expect(
+        resolveWith({
+          id: did,
+          service: [
+            { ...bucket, serviceEndpoint: "https://a.denied.example/bucket" },
+          ],
+        }),
+      ).rejects.toThrow("denied");
+
+      const allowing = new DecentralizedIdentifiers({
+        allowedServiceHosts: ["localhost:5173"],
+        pinned: { [did]: { id: did, service: [bucket] } },
+      });
+      await expect(allowing.resolve(did)).rejects.toThrow("not allowed");
+
+      const mismatched = new DecentralizedIdentifiers({
+        pinned: { [did]: { id: "did:example:other" } },
+      });
+      await expect(mismatched.resolve(did)).rejects.toThrow("does not match");
+    });
+
+    describe("caches", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "graffiti-did-cache-"));
+      afterAll(() => rm(directory, { recursive: true, force: true }));
+
+      const caches: { [name: string]: () => DIDDocumentCache } = {
+        memory: () => new MemoryDIDDocumentCache(),
+        file: () =>
+          new FileDIDDocumentCache({
+            path: join(directory, `${Math.random()}.json`),
+          }),
+        // Without IndexedDB, as in Node.js, it falls back to memory
+        indexeddb: () => new IndexedDBDIDDocumentCache(),
+      };
+      for (const [name, createCache] of Object.entries(caches)) {
+        test(`${name} cache gets, sets, deletes, and clears`, async () => {
+          const cache = createCache();
+          const expiresAt = Date.now() + 60_000;
+          const entry = (id: string) => ({ document: { id }, expiresAt });
+          expect(await cache.get("did:example:a")).toBeUndefined();
+          await cache.set("did:example:a", entry("did:example:a"));
+          await cache.set("did:example:b", entry("did:example:b"));
+          expect(await cache.get("did:example:a")).toEqual(
+            entry("did:example:a"),
+          );
+
+          await cache.del("did:example:a");
+          expect(await cache.get("did:example:a")).toBeUndefined();
+          expect(await cache.get("did:example:b")).toBeDefined();
+
+          await cache.clear();
+          expect(await cache.get("did:example:b")).toBeUndefined();
+        });
+      }
+
+      test("file cache persists and skips invalid entries", async () => {
+        const path = join(directory, "persisted.json");
+        const document = { id: "did:example:a" };
+        const expiresAt = Date.now() + 60_000;
+        await new FileDIDDocumentCache({ path }).set(document.id, {
+          document,
+          expiresAt,
+        });
+        // A new instance, as after a restart
+        await expect(
+          new FileDIDDocumentCache({ path }).get(document.id),
+        ).resolves.toEqual({ document, expiresAt });
+
+        const entries = JSON.parse(await readFile(path, "utf8"));
+        await writeFile(
+          path,
+          JSON.stringify({
+            ...entries,
+            "did:example:b": { document: { id: "did:example:b" } },
+            "did:example:c": { document: { id: "did:example:x" }, expiresAt },
+            "did:example:d": "not an entry",
+          }),
+        );
+        const cache = new FileDIDDocumentCache({ path });
+        await expect(cache.get(document.id)).resolves.toBeDefined();
+        for (const did of ["did:example:b", "did:example:c", "did:example:d"]) {
+          await expect(cache.get(did)).resolves.toBeUndefined();
+        }
+
+        await writeFile(path, "[1, 2, 3]");
+        await expect(cache.get(document.id)).resolves.toBeUndefined();
+      });
+    });
   });
 }
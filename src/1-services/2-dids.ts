@@ -1,17 +1,126 @@
 import { GraffitiErrorNotFound } from "@graffiti-garden/api";
-import { Resolver, type DIDDocument } from "did-resolver";
+import {
+  Resolver,
+  type DIDDocument,
+  type ResolverRegistry,
+} from "did-resolver";
 import { getResolver as plcResolver } from "plc-did-resolver";
-import { getResolver as webResolver } from "web-did-resolver";
+import {
+  getKeyResolver,
+  getPeerResolver,
+  getWebResolver,
+} from "./2-did-methods";
+import {
+  IndexedDBDIDDocumentCache,
+  MemoryDIDDocumentCache,
+  type DIDDocumentCache,
+} from "./2-did-caches";
+import {
+  validateDidDocument,
+  type DIDValidationOptions,
+} from "./2-did-validation";
+import { importFs } from "./utilities";
+
+export interface DecentralizedIdentifiersOptions extends DIDValidationOptions {
+  /**
+   * Resolvers for additional DID methods, keyed by method
+   * name, e.g. `example` for `did:example:...`. These take
+   * precedence over the built-in resolvers.
+   */
+  methods?: ResolverRegistry;
+  /**
+   * Where resolved documents are cached. Defaults to
+   * IndexedDB in the browser and memory elsewhere.
+   */
+  cache?: DIDDocumentCache;
+  /**
+   * How long resolved documents are cached for, in milliseconds,
+   * unless the response's HTTP cache headers say otherwise.
+   * Defaults to one hour.
+   */
+  cacheTtl?: number;
+  /**
+   * Documents to use instead of resolving, keyed by DID.
+   * These are checked before any cache or network request,
+   * so local services can stand in for real ones in
+   * development and tests.
+   */
+  pinned?: { [did: string]: DIDDocument };
+  /**
+   * A directory of JSON files, each containing a single
+   * DID document, that are pinned by their `id`. Only
+   * available in Node.js.
+   */
+  pinnedDirectory?: string;
+}
 
 export class DecentralizedIdentifiers {
-  protected readonly methods = {
-    ...plcResolver(),
-    ...webResolver(),
-  };
+  protected readonly methods: ResolverRegistry;
+  protected readonly resolver: Resolver;
+  protected readonly cache: DIDDocumentCache;
+  protected readonly cacheTtl: number;
+  protected readonly inFlight = new Map<string, Promise<DIDDocument>>();
+  protected readonly pinned: Map<string, DIDDocument>;
+  protected readonly pinnedDirectory: Promise<Map<string, DIDDocument>>;
+  protected readonly validation: DIDValidationOptions;
 
-  protected readonly resolver = new Resolver(this.methods, { cache: true });
+  constructor(options?: DecentralizedIdentifiersOptions) {
+    this.methods = {
+      ...plcResolver(),
+      ...getWebResolver(),
+      ...getKeyResolver(),
+      ...getPeerResolver(),
+      ...options?.methods,
+    };
+    // Caching is handled here rather than by the resolver
+    // so that it can be persistent and respect expiration
+    this.resolver = new Resolver(this.methods, { cache: false });
+    this.cache =
+      options?.cache ??
+      (typeof window !== "undefined"
+        ? new IndexedDBDIDDocumentCache()
+        : new MemoryDIDDocumentCache());
+    this.cacheTtl = options?.cacheTtl ?? DEFAULT_CACHE_TTL;
+    this.validation = {
+      allowedServiceHosts: options?.allowedServiceHosts,
+      deniedServiceHosts: options?.deniedServiceHosts,
+    };
+    this.pinned = new Map(Object.entries(options?.pinned ?? {}));
+    const directory = options?.pinnedDirectory;
+    this.pinnedDirectory = directory
+      ? readPinnedDirectory(directory)
+      : Promise.resolve(new Map());
+    // Surface errors on first use rather than as unhandled rejections
+    this.pinnedDirectory.catch(() => {});
+  }
+
+  async resolve(
+    did: string,
+    options?: {
+      /**
+       * Fetch the latest version of the document
+       * rather than a cached one
+       */
+      noCache?: boolean;
+    },
+  ): Promise<DIDDocument> {
+    // Pinned and cached documents are validated too,
+    // so nothing that reaches callers skips the checks
+    return validateDidDocument(
+      did,
+      await this.resolve_(did, options),
+      this.validation,
+    );
+  }
+
+  protected async resolve_(
+    did: string,
+    options?: { noCache?: boolean },
+  ): Promise<DIDDocument> {
+    const pinned =
+      this.pinned.get(did) ?? (await this.pinnedDirectory).get(did);
+    if (pinned) return pinned;
 
-  async resolve(did: string): Promise<DIDDocument> {
     if (
       !Object.keys(this.methods).some((method) =>
         did.startsWith(`did:${method}:`),
@@ -20,11 +129,103 @@ export class DecentralizedIdentifiers {
       throw new Error(`Unrecognized DID method: ${did}`);
     }
 
-    const { didDocument } = await this.resolver.resolve(did);
+    if (!options?.noCache) {
+      const cached = await this.cache.get(did).catch((error) => {
+        console.error("Error reading DID cache:", error);
+        return undefined;
+      });
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.document;
+      }
+    }
+
+    // Share a single fetch among concurrent resolutions
+    const existing = this.inFlight.get(did);
+    if (existing) return existing;
+    const resolving = this.resolveAndCache(did);
+    this.inFlight.set(did, resolving);
+    try {
+      return await resolving;
+    } finally {
+      this.inFlight.delete(did);
+    }
+  }
+
+  /**
+   * Remove a DID's document from the cache, or all
+   * documents if no DID is given, so they are fetched
+   * fresh the next time they are resolved.
+   */
+  async invalidate(did?: string): Promise<void> {
+    if (did === undefined) {
+      await this.cache.clear();
+    } else {
+      await this.cache.del(did);
+    }
+  }
+
+  /**
+   * Use the given document whenever its DID is resolved,
+   * instead of fetching it.
+   */
+  pin(document: DIDDocument): void {
+    this.pinned.set(document.id, document);
+  }
+
+  /**
+   * Stop using a document given to {@link pin} or the
+   * `pinned` option, so its DID is resolved as usual.
+   */
+  unpin(did: string): void {
+    this.pinned.delete(did);
+  }
+
+  protected async resolveAndCache(did: string): Promise<DIDDocument> {
+    const { didDocument, didResolutionMetadata } =
+      await this.resolver.resolve(did);
     if (!didDocument) {
       throw new GraffitiErrorNotFound(`DID not found: ${did}`);
     }
 
+    const maxAge: unknown = didResolutionMetadata.maxAge;
+    const ttl = typeof maxAge === "number" ? maxAge : this.cacheTtl;
+    if (ttl > 0) {
+      await this.cache
+        .set(did, { document: didDocument, expiresAt: Date.now() + ttl })
+        .catch((error) => console.error("Error writing DID cache:", error));
+    } else {
+      await this.cache
+        .del(did)
+        .catch((error) => console.error("Error writing DID cache:", error));
+    }
+
     return didDocument;
   }
 }
+
+const DEFAULT_CACHE_TTL = 60 * 60 * 1000;
+
+async function readPinnedDirectory(
+  directory: string,
+): Promise<Map<string, DIDDocument>> {
+  const fs = await importFs();
+
+  const pinned = new Map<string, DIDDocument>();
+  for (const file of await fs.readdir(directory)) {
+    if (!file.endsWith(".json")) continue;
+    // Node.js accepts forward slashes on every platform
+    const path = `${directory.replace(/[\\/]+$/, "")}/${file}`;
+    const document: unknown = JSON.parse(await fs.readFile(path, "utf8"));
+    if (
+      typeof document !== "object" ||
+      document === null ||
+      !("id" in document) ||
+      typeof document.id !== "string" ||
+      !document.id.startsWith("did:")
+    ) {
+      throw new Error(`Pinned DID document ${path} has no valid id`);
+    }
+    pinned.set(document.id, document as DIDDocument);
+  }
+  return pinned;
+}
@@ -1,4 +1,4 @@
-import { describe, expect, test } from "vitest";
+import { describe, expect, test, vi } from "vitest";
 import { StorageBuckets } from "./3-storage-buckets";
 import { GraffitiErrorUnauthorized } from "./utilities";
 import { GraffitiErrorNotFound } from "@graffiti-garden/api";
@@ -62,6 +62,169 @@ export function storageBucketTests(
       ).rejects.toThrow();
     });
 
+    test("stream put and get", async () => {
+      const key = Math.random().toString(36).substring(2, 15);
+      const chunks = ["Hello", " ", "streaming", " ", "world"].map((c) =>
+        new TextEncoder().encode(c),
+      );
+      const length = chunks.reduce((sum, c) => sum + c.length, 0);
+
+      await storageBuckets.putStream(
+        storageBucketEndpoint,
+        key,
+        new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(chunk);
+            controller.close();
+          },
+        }),
+        storageBucketToken,
+      );
+
+      const stream = await storageBuckets.getStream(
+        storageBucketEndpoint,
+        key,
+        length,
+      );
+      const result = await new Response(stream).text();
+      expect(result).toEqual("Hello streaming world");
+
+      await expect(
+        storageBuckets
+          .getStream(storageBucketEndpoint, key, length - 1)
+          .then((s) => new Response(s).arrayBuffer()),
+      ).rejects.toThrow();
+
+      // Blobs can be put directly
+      await storageBuckets.put(
+        storageBucketEndpoint,
+        key,
+        new Blob(chunks),
+        storageBucketToken,
+      );
+      const bytes = await storageBuckets.get(storageBucketEndpoint, key);
+      expect(new TextDecoder().decode(bytes)).toEqual("Hello streaming world");
+
+      await storageBuckets.delete(
+        storageBucketEndpoint,
+        key,
+        storageBucketToken,
+      );
+    });
+
+    test("stream put to servers that do and don't accept streams", async () => {
+      const endpoint = "https://bucket.example";
+      const stream = () =>
+        new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode("Hello "));
+            controller.enqueue(new TextEncoder().encode("world"));
+            controller.close();
+          },
+        });
+
+      let received: string | undefined;
+      let acceptsStreams = true;
+      vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+        expect(url).toBe(`${endpoint}/value/key`);
+        expect(init.body).toBeInstanceOf(ReadableStream);
+        if (!acceptsStreams) return new Response(null, { status: 411 });
+        received = await new Response(init.body).text();
+        return new Response(null, { status: 201 });
+      });
+      try {
+        await storageBuckets.putStream(endpoint, "key", stream(), "token");
+        expect(received).toBe("Hello world");
+
+        acceptsStreams = false;
+        await expect(
+          storageBuckets.putStream(endpoint, "key", stream(), "token"),
+        ).rejects.toThrow("does not accept streamed uploads");
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    test("partial values must match the requested range", async () => {
+      const endpoint = "https://bucket.example";
+      const value = new TextEncoder().encode("Hello range world");
+      let contentRange: (start: number, end: number) => string | undefined;
+      vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+        const header = new Headers(init.headers).get("Range");
+        const [, start, last] = header!.match(/^bytes=(\d+)-(\d*)$/)!;
+        const end = last ? Number(last) + 1 : value.length;
+        const range = contentRange(Number(start), Math.min(end, value.length));
+        return new Response(value.slice(Number(start), end), {
+          status: 206,
+          headers: range ? { "Content-Range": range } : {},
+        });
+      });
+      const getRange = async (start: number, end?: number) =>
+        new TextDecoder().decode(
+          await storageBuckets.get(endpoint, "key", undefined, { start, end }),
+        );
+      try {
+        contentRange = (start, end) =>
+          `bytes ${start}-${end - 1}/${value.length}`;
+        await expect(getRange(6, 11)).resolves.toBe("range");
+        await expect(getRange(12, 100)).resolves.toBe("world");
+
+        // A range other than the one requested
+        contentRange = (start, end) =>
+          `bytes ${start + 1}-${end}/${value.length}`;
+        await expect(getRange(6, 11)).rejects.toThrow("requested range");
+        // A range that ends early
+        contentRange = (start, end) =>
+          `bytes ${start}-${end - 2}/${value.length}`;
+        await expect(getRange(6, 11)).rejects.toThrow("requested range");
+        // The last range, when the total is unknown
+        contentRange = (start, end) => `bytes ${start}-${end - 1}/*`;
+        await expect(getRange(6, 11)).resolves.toBe("range");
+        await expect(getRange(12, 100)).resolves.toBe("world");
+        contentRange = (start, end) => `bytes ${start}-${end}/*`;
+        await expect(getRange(6, 11)).rejects.toThrow("requested range");
+        // No range at all
+        contentRange = () => undefined;
+        await expect(getRange(6, 11)).rejects.toThrow("no valid range");
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    test("get a range", async () => {
+      const key = Math.random().toString(36).substring(2, 15);
+      const bytes = new TextEncoder().encode("Hello range world");
+
+      await storageBuckets.put(
+        storageBucketEndpoint,
+        key,
+        bytes,
+        storageBucketToken,
+      );
+
+      const middle = await storageBuckets.get(
+        storageBucketEndpoint,
+        key,
+        undefined,
+        { start: 6, end: 11 },
+      );
+      expect(new TextDecoder().decode(middle)).toEqual("range");
+
+      const rest = await storageBuckets.get(
+        storageBucketEndpoint,
+        key,
+        undefined,
+        { start: 12 },
+      );
+      expect(new TextDecoder().decode(rest)).toEqual("world");
+
+      await storageBuckets.delete(
+        storageBucketEndpoint,
+        key,
+        storageBucketToken,
+      );
+    });
+
     test("unauthorized", async () => {
       const key = Math.random().toString(36).substring(2, 15);
       const input = "Hello world";
@@ -78,6 +241,14 @@ export function storageBucketTests(
       ).rejects.toThrow(GraffitiErrorUnauthorized);
     });
 
+    test("endpoints must use https", async () => {
+      for (const endpoint of ["http://example.com", "http://localhost:5173"]) {
+        await expect(storageBuckets.get(endpoint, "key")).rejects.toThrow(
+          "Unrecognized storage bucket endpoint type",
+        );
+      }
+    });
+
     test("export", async () => {
       // Put a whole bunch of stuff so the export needs to page
       const keys = new Set<string>();
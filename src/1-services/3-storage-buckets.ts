@@ -1,4 +1,5 @@
 import {
+  checkResponse,
   fetchWithErrorHandling,
   getAuthorizationEndpoint,
   verifyHTTPSEndpoint,
@@ -6,13 +7,25 @@ import {
 import { string, array, object, optional, nullable } from "zod/mini";
 import { decode as dagCborDecode } from "@ipld/dag-cbor";
 
+export interface ByteRange {
+  /**
+   * The offset of the first byte to read.
+   */
+  start: number;
+  /**
+   * The offset just past the last byte to read,
+   * like `Blob.slice`. Reads to the end if omitted.
+   */
+  end?: number;
+}
+
 export class StorageBuckets {
   getAuthorizationEndpoint = getAuthorizationEndpoint;
 
   async put(
     storageBucketEndpoint: string,
     key: string,
-    value: Uint8Array,
+    value: Uint8Array | Blob,
     authorizationToken: string,
   ): Promise<void> {
     verifyHTTPSEndpoint(storageBucketEndpoint);
@@ -24,10 +37,61 @@ export class StorageBuckets {
         "Content-Type": "application/octet-stream",
         Authorization: `Bearer ${authorizationToken}`,
       },
-      body: value.slice(),
+      // Blobs are sent as is, so they can be streamed
+      // from disk rather than read into memory first
+      body: value instanceof Blob ? value : value.slice(),
     });
   }
 
+  /**
+   * Like {@link put}, but uploads the value as it is read from
+   * a stream. Streams can only be read once, so if the upload
+   * may need to be retried, pass a fresh stream each time.
+   *
+   * Not all browsers support streaming uploads, in which case the
+   * stream is read into memory and uploaded with {@link put}. Not
+   * all servers accept them either, and since by then the stream
+   * has been read, the upload fails rather than being retried.
+   * Where possible, pass a `Blob` to {@link put} instead.
+   */
+  async putStream(
+    storageBucketEndpoint: string,
+    key: string,
+    value: ReadableStream<Uint8Array>,
+    authorizationToken: string,
+  ): Promise<void> {
+    verifyHTTPSEndpoint(storageBucketEndpoint);
+    if (!supportsStreamingUploads()) {
+      return await this.put(
+        storageBucketEndpoint,
+        key,
+        await new Response(value).blob(),
+        authorizationToken,
+      );
+    }
+    const url = `${storageBucketEndpoint}/value/${encodeURIComponent(key)}`;
+
+    const init: RequestInit & { duplex: "half" } = {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        Authorization: `Bearer ${authorizationToken}`,
+      },
+      body: value,
+      // Required for streaming request bodies
+      duplex: "half",
+    };
+    const response = await fetch(url, init);
+    // Servers that need to know the length up front
+    if (response.status === 411 || response.status === 501) {
+      await response.body?.cancel();
+      throw new Error(
+        "The storage bucket does not accept streamed uploads, put a Blob instead",
+      );
+    }
+    await checkResponse(response);
+  }
+
   async delete(
     storageBucketEndpoint: string,
     key: string,
@@ -48,7 +112,18 @@ export class StorageBuckets {
     storageBucketEndpoint: string,
     key: string,
     maxBytes?: number,
+    range?: ByteRange,
   ): Promise<Uint8Array> {
+    if (range) {
+      const stream = await this.getStream(
+        storageBucketEndpoint,
+        key,
+        maxBytes,
+        range,
+      );
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+
     verifyHTTPSEndpoint(storageBucketEndpoint);
     const url = `${storageBucketEndpoint}/value/${encodeURIComponent(key)}`;
 
@@ -142,6 +217,76 @@ export class StorageBuckets {
     return out;
   }
 
+  /**
+   * Like {@link get}, but returns the value as a stream so it
+   * never needs to be held in memory all at once. If the value
+   * turns out to be larger than `maxBytes`, the stream errors
+   * as soon as the limit is passed.
+   */
+  async getStream(
+    storageBucketEndpoint: string,
+    key: string,
+    maxBytes?: number,
+    range?: ByteRange,
+  ): Promise<ReadableStream<Uint8Array>> {
+    verifyHTTPSEndpoint(storageBucketEndpoint);
+    const url = `${storageBucketEndpoint}/value/${encodeURIComponent(key)}`;
+
+    const response = await fetchWithErrorHandling(
+      url,
+      range ? { headers: { Range: rangeToHeader(range) } } : undefined,
+    );
+    if (!response.body) {
+      throw new Error("Failed to read value from storage bucket");
+    }
+
+    // Servers that don't support ranges send the whole value
+    const alreadySliced = !range || response.status === 206;
+    if (range && response.status === 206) {
+      try {
+        verifyContentRange(response.headers.get("Content-Range"), range);
+      } catch (error) {
+        await response.body.cancel();
+        throw error;
+      }
+    }
+    const body = alreadySliced
+      ? response.body
+      : response.body.pipeThrough(sliceBytes(range));
+    if (maxBytes === undefined) return body;
+
+    // Fail early if the size is known up front
+    const contentLength = Number(response.headers.get("Content-Length"));
+    if (
+      alreadySliced &&
+      response.headers.has("Content-Length") &&
+      Number.isFinite(contentLength) &&
+      contentLength > maxBytes
+    ) {
+      await body.cancel();
+      throw new Error("Value exceeds maximum byte limit");
+    }
+
+    return body.pipeThrough(limitBytes(maxBytes));
+  }
+
+  async verifyToken(
+    storageBucketEndpoint: string,
+    authorizationToken: string,
+  ): Promise<void> {
+    verifyHTTPSEndpoint(storageBucketEndpoint);
+    const url = `${storageBucketEndpoint}/export`;
+
+    // Exporting requires authorization, so fetching the
+    // first page will fail if the token is not valid
+    const response = await fetchWithErrorHandling(url, {
+      headers: {
+        Authorization: `Bearer ${authorizationToken}`,
+      },
+    });
+    await response.body?.cancel();
+  }
+
   async *export(
     storageBucketEndpoint: string,
     authorizationToken: string,
@@ -177,6 +322,100 @@ export class StorageBuckets {
   }
 }
 
+let streamingUploadsSupported: boolean | undefined;
+function supportsStreamingUploads(): boolean {
+  // https://developer.chrome.com/docs/capabilities/web-apis/fetch-streaming-requests#feature_detection
+  if (streamingUploadsSupported === undefined) {
+    let duplexAccessed = false;
+    const init: RequestInit & { duplex: "half" } = {
+      body: new ReadableStream(),
+      method: "POST",
+      get duplex(): "half" {
+        duplexAccessed = true;
+        return "half";
+      },
+    };
+    try {
+      const hasContentType = new Request(
+        "https://example.com",
+        init,
+      ).headers.has("Content-Type");
+      streamingUploadsSupported = duplexAccessed && !hasContentType;
+    } catch {
+      streamingUploadsSupported = false;
+    }
+  }
+  return streamingUploadsSupported;
+}
+
+function rangeToHeader(range: ByteRange): string {
+  if (
+    !Number.isSafeInteger(range.start) ||
+    range.start < 0 ||
+    (range.end !== undefined &&
+      (!Number.isSafeInteger(range.end) || range.end <= range.start))
+  ) {
+    throw new RangeError("Invalid byte range");
+  }
+  // HTTP ranges include their last byte
+  return `bytes=${range.start}-${range.end === undefined ? "" : range.end - 1}`;
+}
+
+/**
+ * Makes sure a partial response holds the range that was asked for,
+ * which may end early if the range passes the end of the value.
+ */
+function verifyContentRange(header: string | null, range: ByteRange) {
+  // Like "bytes 0-99/1234", where the total may be "*" if unknown
+  const match = header?.match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/);
+  if (!match) {
+    throw new Error("Partial value from storage bucket has no valid range");
+  }
+  const start = Number(match[1]);
+  const end = Number(match[2]) + 1;
+  const total = match[3] === "*" ? undefined : Number(match[3]);
+  // Without the total, a range that ends early can't be told
+  // apart from the end of the value, so it is trusted
+  const endMatches =
+    total === undefined
+      ? range.end === undefined || end <= range.end
+      : end === Math.min(range.end ?? total, total);
+  if (start !== range.start || end <= start || !endMatches) {
+    throw new Error(
+      `Storage bucket sent ${header} rather than the requested range`,
+    );
+  }
+}
+
+function sliceBytes(range: ByteRange) {
+  let offset = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const chunkStart = offset;
+      offset += chunk.length;
+      const start = Math.max(range.start - chunkStart, 0);
+      const end = Math.min((range.end ?? Infinity) - chunkStart, chunk.length);
+      if (end > start) controller.enqueue(chunk.subarray(start, end));
+      if (range.end !== undefined && offset >= range.end) {
+        controller.terminate();
+      }
+    },
+  });
+}
+
+function limitBytes(maxBytes: number) {
+  let total = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        throw new Error("Value exceeds maximum byte limit");
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
 const ExportSchema = object({
   keys: array(string()),
   cursor: optional(nullable(string())),
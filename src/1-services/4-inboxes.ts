@@ -30,6 +30,17 @@ import {
   union,
 } from "zod/mini";
 
+/**
+ * The token to make an inbox request with. Instead of a token, this
+ * can be a function that makes the request with a token, so that
+ * the token can be refreshed and the request retried if it is
+ * rejected as unauthorized.
+ */
+export type InboxToken =
+  | string
+  | null
+  | (<T>(request: (inboxToken: string) => Promise<T>) => Promise<T>);
+
 export class Inboxes {
   getAuthorizationEndpoint = getAuthorizationEndpoint;
   protected cache_: Promise<Cache> | null = null;
@@ -61,7 +72,7 @@ export class Inboxes {
   async get(
     inboxUrl: string,
     messageId: string,
-    inboxToken?: string | null,
+    inboxToken?: InboxToken,
   ): Promise<LabeledMessageBase | null> {
     const messageCacheKey = getMessageCacheKey(inboxUrl, messageId);
     const cache = await this.cache;
@@ -71,16 +82,18 @@ export class Inboxes {
     const url = `${inboxUrl}/message/${messageId}`;
     let response: Response | null = null;
     try {
-      response = await fetchWithErrorHandling(url, {
-        method: "GET",
-        headers: {
-          ...(inboxToken
-            ? {
-                Authorization: `Bearer ${inboxToken}`,
-              }
-            : {}),
-        },
-      });
+      response = await withInboxToken(inboxToken, (inboxToken) =>
+        fetchWithErrorHandling(url, {
+          method: "GET",
+          headers: {
+            ...(inboxToken
+              ? {
+                  Authorization: `Bearer ${inboxToken}`,
+                }
+              : {}),
+          },
+        }),
+      );
     } catch (e) {
       if (e instanceof GraffitiErrorNotFound) {
         await cache.messages.set(messageCacheKey, null);
@@ -101,21 +114,23 @@ export class Inboxes {
     inboxUrl: string,
     messageId: string,
     label: number,
-    inboxToken?: string | null,
+    inboxToken?: InboxToken,
   ): Promise<void> {
     verifyHTTPSEndpoint(inboxUrl);
 
     if (inboxToken) {
       const url = `${inboxUrl}/label/${messageId}`;
 
-      await fetchWithErrorHandling(url, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/cbor",
-          Authorization: `Bearer ${inboxToken}`,
-        },
-        body: new Uint8Array(dagCborEncode({ l: label })),
-      });
+      await withInboxToken(inboxToken, (inboxToken) =>
+        fetchWithErrorHandling(url, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/cbor",
+            Authorization: `Bearer ${inboxToken}`,
+          },
+          body: new Uint8Array(dagCborEncode({ l: label })),
+        }),
+      );
     }
 
     // Update the cache, even if no token.
@@ -132,27 +147,43 @@ export class Inboxes {
     }
   }
 
+  async verifyToken(inboxUrl: string, inboxToken: string): Promise<void> {
+    verifyHTTPSEndpoint(inboxUrl);
+
+    // Exporting requires authorization, so fetching the
+    // first batch will fail if the token is not valid
+    const { response } = await this.fetchMessageBatch(
+      inboxUrl,
+      "export",
+      undefined,
+      inboxToken,
+    );
+    await response.body?.cancel();
+  }
+
   protected async fetchMessageBatch(
     inboxUrl: string,
     type: "query" | "export",
     body: Uint8Array<ArrayBuffer> | undefined,
-    inboxToken?: string | null,
+    inboxToken?: InboxToken,
     cursor?: string,
   ) {
-    const response = await fetchWithErrorHandling(
-      `${inboxUrl}/${type}${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ""}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/cbor",
-          ...(inboxToken
-            ? {
-                Authorization: `Bearer ${inboxToken}`,
-              }
-            : {}),
+    const response = await withInboxToken(inboxToken, (inboxToken) =>
+      fetchWithErrorHandling(
+        `${inboxUrl}/${type}${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ""}`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/cbor",
+            ...(inboxToken
+              ? {
+                  Authorization: `Bearer ${inboxToken}`,
+                }
+              : {}),
+          },
+          body,
         },
-        body,
-      },
+      ),
     );
     const retryAfterHeader = response.headers.get("Retry-After");
     const retryAfter = retryAfterHeader
@@ -300,7 +331,7 @@ export class Inboxes {
     inboxUrl: string,
     type: "export" | "query",
     body: Uint8Array<ArrayBuffer> | undefined,
-    inboxToken?: string | null,
+    inboxToken?: InboxToken,
     objectSchema: Schema = {} as Schema,
     cacheVersion?: string,
     cacheNumSeen: number = 0,
@@ -471,7 +502,7 @@ export class Inboxes {
     inboxUrl: string,
     tags: Uint8Array[],
     objectSchema: Schema,
-    inboxToken?: string | null,
+    inboxToken?: InboxToken,
   ): MessageStream<Schema> {
     verifyHTTPSEndpoint(inboxUrl);
 
@@ -494,7 +525,7 @@ export class Inboxes {
   continueQuery(
     inboxUrl: string,
     cursor: string,
-    inboxToken?: string | null,
+    inboxToken?: InboxToken,
   ): MessageStream<{}> {
     verifyHTTPSEndpoint(inboxUrl);
 
@@ -527,6 +558,15 @@ export class Inboxes {
   }
 }
 
+function withInboxToken<T>(
+  inboxToken: InboxToken | undefined,
+  request: (inboxToken?: string | null) => Promise<T>,
+): Promise<T> {
+  return typeof inboxToken === "function"
+    ? inboxToken(request)
+    : request(inboxToken);
+}
+
 const GraffitiObjectSchema = strictObject({
   value: looseObject({}),
   channels: array(string()),
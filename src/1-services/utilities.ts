@@ -6,8 +6,17 @@ import {
 } from "@graffiti-garden/api";
 
 const SERVICE_ENDPOINT_PREFIX_HTTPS = "https://";
+/**
+ * Whether services may be reached at the endpoint. Only
+ * HTTPS is accepted, including for loopback addresses, so
+ * local services need a certificate too.
+ */
+export function isHTTPSEndpoint(endpoint: string): boolean {
+  return endpoint.startsWith(SERVICE_ENDPOINT_PREFIX_HTTPS);
+}
+
 export function verifyHTTPSEndpoint(endpoint: string): void {
-  if (!endpoint.startsWith(SERVICE_ENDPOINT_PREFIX_HTTPS)) {
+  if (!isHTTPSEndpoint(endpoint)) {
     throw new Error("Unrecognized storage bucket endpoint type");
   }
 }
@@ -36,8 +45,13 @@ export class GraffitiErrorUnauthorized extends Error {
 export async function fetchWithErrorHandling(
   ...args: Parameters<typeof fetch>
 ) {
-  const response = await fetch(...args);
+  return await checkResponse(await fetch(...args));
+}
 
+/**
+ * Throws the Graffiti error matching a response's status, if it failed.
+ */
+export async function checkResponse(response: Response) {
   if (!response.ok) {
     let errorText: string;
     try {
@@ -63,3 +77,13 @@ export async function fetchWithErrorHandling(
 
   return response;
 }
+
+export async function importFs() {
+  return await import("node:fs/promises").catch((e) => {
+    throw new Error("Unrecognized environment: cannot find node:fs/promises");
+  });
+}
+
+export function isErrorWithCode(e: unknown, code: string): boolean {
+  return typeof e === "object" && e !== null && "code" in e && e.code === code;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, test } from "vitest";
+import {
+  MEDIA_ENCRYPTION_METHOD_AES256_GCM,
+  MediaEncryption,
+} from "./5-media-encryption";
+import { randomBytes } from "@noble/hashes/utils.js";
+
+export function mediaEncryptionTests() {
+  describe("Media encryption tests", () => {
+    const method = MEDIA_ENCRYPTION_METHOD_AES256_GCM;
+    const mediaEncryption = new MediaEncryption();
+
+    test("Invalid media encryption method", async () => {
+      await expect(() =>
+        mediaEncryption.generateKey("invalid-method"),
+      ).rejects.toThrow();
+    });
+
+    test("encrypt and decrypt", async () => {
+      const key = await mediaEncryption.generateKey(method);
+      const plaintext = randomBytes(100);
+      const ciphertext = await mediaEncryption.encrypt(
+        method,
+        key,
+        3,
+        plaintext,
+      );
+      expect(ciphertext.length).toBe(
+        plaintext.length + mediaEncryption.overhead(method),
+      );
+      expect(ciphertext.subarray(0, 100)).not.toEqual(plaintext);
+
+      const decrypted = await mediaEncryption.decrypt(
+        method,
+        key,
+        3,
+        ciphertext,
+      );
+      expect(decrypted).toEqual(plaintext);
+    });
+
+    test("deterministic per key and chunk", async () => {
+      const key = await mediaEncryption.generateKey(method);
+      const plaintext = randomBytes(32);
+      const first = await mediaEncryption.encrypt(method, key, 0, plaintext);
+      const second = await mediaEncryption.encrypt(method, key, 0, plaintext);
+      expect(first).toEqual(second);
+
+      const otherChunk = await mediaEncryption.encrypt(
+        method,
+        key,
+        1,
+        plaintext,
+      );
+      expect(otherChunk).not.toEqual(first);
+
+      const otherKey = await mediaEncryption.encrypt(
+        method,
+        await mediaEncryption.generateKey(method),
+        0,
+        plaintext,
+      );
+      expect(otherKey).not.toEqual(first);
+    });
+
+    test("wrong key, chunk, or tampered data", async () => {
+      const key = await mediaEncryption.generateKey(method);
+      const ciphertext = await mediaEncryption.encrypt(
+        method,
+        key,
+        0,
+        randomBytes(32),
+      );
+
+      await expect(
+        mediaEncryption.decrypt(
+          method,
+          await mediaEncryption.generateKey(method),
+          0,
+          ciphertext,
+        ),
+      ).rejects.toThrow();
+      await expect(
+        mediaEncryption.decrypt(method, key, 1, ciphertext),
+      ).rejects.toThrow();
+
+      const tampered = ciphertext.slice();
+      tampered[0] ^= 1;
+      await expect(
+        mediaEncryption.decrypt(method, key, 0, tampered),
+      ).rejects.toThrow();
+    });
+  });
+}
@@ -0,0 +1,93 @@
+export const MEDIA_ENCRYPTION_METHOD_AES256_GCM = "aes-256-gcm";
+
+const AES256_GCM_KEY_LENGTH = 32;
+const AES256_GCM_IV_LENGTH = 12;
+const AES256_GCM_TAG_LENGTH = 16;
+
+/**
+ * Encrypts media one chunk at a time under a random content key.
+ * Each chunk's IV is derived from its position in the media, so
+ * chunks can't be reordered and re-encrypting a chunk with the same
+ * key gives the same ciphertext, which lets uploads be resumed.
+ * A content key must therefore only ever be used for one piece of media.
+ */
+export class MediaEncryption {
+  async generateKey(mediaEncryptionMethod: string): Promise<Uint8Array> {
+    assertMethod(mediaEncryptionMethod);
+    return crypto.getRandomValues(new Uint8Array(AES256_GCM_KEY_LENGTH));
+  }
+
+  /**
+   * How many bytes larger each encrypted chunk is than its plaintext.
+   */
+  overhead(mediaEncryptionMethod: string): number {
+    assertMethod(mediaEncryptionMethod);
+    return AES256_GCM_TAG_LENGTH;
+  }
+
+  async encrypt(
+    mediaEncryptionMethod: string,
+    key: Uint8Array,
+    chunkIndex: number,
+    plaintext: Uint8Array,
+  ): Promise<Uint8Array> {
+    assertMethod(mediaEncryptionMethod);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: chunkIndexToIv(chunkIndex) },
+      await importKey(key),
+      plaintext as Uint8Array<ArrayBuffer>,
+    );
+    return new Uint8Array(ciphertext);
+  }
+
+  async decrypt(
+    mediaEncryptionMethod: string,
+    key: Uint8Array,
+    chunkIndex: number,
+    ciphertext: Uint8Array,
+  ): Promise<Uint8Array> {
+    assertMethod(mediaEncryptionMethod);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: chunkIndexToIv(chunkIndex) },
+        await importKey(key),
+        ciphertext as Uint8Array<ArrayBuffer>,
+      );
+    } catch {
+      throw new Error("Media could not be decrypted");
+    }
+    return new Uint8Array(plaintext);
+  }
+}
+
+function assertMethod(mediaEncryptionMethod: string) {
+  if (mediaEncryptionMethod !== MEDIA_ENCRYPTION_METHOD_AES256_GCM) {
+    throw new Error(
+      `Unsupported media encryption method: ${mediaEncryptionMethod}`,
+    );
+  }
+}
+
+async function importKey(key: Uint8Array): Promise<CryptoKey> {
+  if (key.length !== AES256_GCM_KEY_LENGTH) {
+    throw new Error("Invalid media encryption key");
+  }
+  return await crypto.subtle.importKey(
+    "raw",
+    key as Uint8Array<ArrayBuffer>,
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+function chunkIndexToIv(chunkIndex: number): Uint8Array<ArrayBuffer> {
+  if (!Number.isSafeInteger(chunkIndex) || chunkIndex < 0) {
+    throw new RangeError("Invalid media chunk index");
+  }
+  // The index fills the IV big-endian from the end
+  const iv = new Uint8Array(AES256_GCM_IV_LENGTH);
+  new DataView(iv.buffer).setBigUint64(4, BigInt(chunkIndex));
+  return iv;
+}
@@ -0,0 +1,93 @@
+import { afterAll, describe, expect, test } from "vitest";
+import {
+  FileSessionStore,
+  MemorySessionStore,
+  PassphraseEncryption,
+} from "./1-session-stores";
+import { randomBytes } from "@noble/hashes/utils.js";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+export function sessionStoreTests() {
+  describe("Session stores", () => {
+    test("memory store gets, sets, and deletes", async () => {
+      const store = new MemorySessionStore();
+      const key = Math.random().toString();
+      expect(await store.get(key)).toBeUndefined();
+      await store.set(key, "value");
+      expect(await store.get(key)).toBe("value");
+      await store.del(key);
+      expect(await store.get(key)).toBeUndefined();
+    });
+
+    test("passphrase encryption round trips", async () => {
+      const passphrase = Math.random().toString();
+      const plaintext = Math.random().toString();
+      const encrypted = await new PassphraseEncryption(passphrase).encrypt(
+        plaintext,
+      );
+      expect(encrypted.ciphertext).not.toContain(plaintext);
+
+      const decrypted = await new PassphraseEncryption(passphrase).decrypt(
+        encrypted,
+      );
+      expect(decrypted).toBe(plaintext);
+
+      await expect(
+        new PassphraseEncryption(passphrase + "x").decrypt(encrypted),
+      ).rejects.toThrow();
+    });
+
+    describe("file store", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "graffiti-sessions-"));
+      const path = join(directory, "sessions.json");
+      const secret = Math.random().toString();
+      afterAll(() => rm(directory, { recursive: true, force: true }));
+
+      test("persists across instances", async () => {
+        const store = new FileSessionStore({ path, secret });
+        await store.set("a", "1");
+        await store.set("b", "2");
+        await store.del("a");
+
+        const reopened = new FileSessionStore({ path, secret });
+        expect(await reopened.get("a")).toBeUndefined();
+        expect(await reopened.get("b")).toBe("2");
+      });
+
+      test("encrypts at rest", async () => {
+        const value = Array.from(randomBytes(), (b) => b.toString(16)).join("");
+        const store = new FileSessionStore({ path, secret });
+        await store.set("secret", value);
+
+        const contents = await readFile(path, "utf8");
+        expect(contents).not.toContain(value);
+        expect(contents).not.toContain("secret");
+      });
+
+      test("rejects the wrong secret", async () => {
+        const store = new FileSessionStore({ path, secret });
+        await store.set("a", "1");
+
+        const wrong = new FileSessionStore({ path, secret: secret + "x" });
+        await expect(wrong.get("a")).rejects.toThrow();
+      });
+
+      test("rejects values that aren't strings", async () => {
+        const invalidPath = join(directory, "invalid.json");
+        const encrypted = await new PassphraseEncryption(secret).encrypt(
+          JSON.stringify({ a: 1 }),
+        );
+        await writeFile(
+          invalidPath,
+          JSON.stringify({ version: 1, ...encrypted }),
+          "utf8",
+        );
+
+        const store = new FileSessionStore({ path: invalidPath, secret });
+        await expect(store.get("a")).rejects.toThrow("is invalid");
+      });
+    });
+  });
+}
@@ -0,0 +1,275 @@
+import {
+  StringEncoder,
+  STRING_ENCODER_METHOD_BASE64URL,
+} from "../2-primitives/1-string-encoding";
+import {
+  type infer as infer_,
+  extend,
+  object,
+  string,
+  literal,
+  record,
+} from "zod/mini";
+import { importFs, isErrorWithCode } from "../1-services/utilities";
+
+/**
+ * Persists session data, such as logged in sessions
+ * and logins or logouts that are still in progress.
+ * Values are opaque strings.
+ */
+export interface SessionStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  del(key: string): Promise<void>;
+  /**
+   * Lists the keys that start with the prefix. Stores
+   * without it never clean up logins or logouts that
+   * were abandoned partway through.
+   */
+  keys?(prefix: string): Promise<string[]>;
+}
+
+/**
+ * The default store in the browser, so sessions
+ * survive page reloads and redirects.
+ */
+export class LocalStorageSessionStore implements SessionStore {
+  async get(key: string) {
+    return window.localStorage.getItem(key) ?? undefined;
+  }
+  async set(key: string, value: string) {
+    window.localStorage.setItem(key, value);
+  }
+  async del(key: string) {
+    window.localStorage.removeItem(key);
+  }
+  async keys(prefix: string) {
+    const keys: string[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/**
+ * Keeps sessions in memory only, so they
+ * end when the process does.
+ */
+export class MemorySessionStore implements SessionStore {
+  protected readonly data = new Map<string, string>();
+
+  async get(key: string) {
+    return this.data.get(key);
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async del(key: string) {
+    this.data.delete(key);
+  }
+  async keys(prefix: string) {
+    return [...this.data.keys()].filter((key) => key.startsWith(prefix));
+  }
+}
+
+export interface FileSessionStoreOptions {
+  /**
+   * Path to the JSON file that sessions are stored in.
+   * It is created if it does not already exist.
+   */
+  path: string;
+  /**
+   * Secret that the file is encrypted with. The encryption
+   * key is derived from it, so it can be any passphrase.
+   */
+  secret: string;
+}
+
+/**
+ * Stores sessions in a JSON file for Node.js, so logins
+ * survive process restarts. The file is encrypted at rest
+ * with AES-GCM under a key derived from the given secret.
+ */
+export class FileSessionStore implements SessionStore {
+  protected readonly encryption: PassphraseEncryption;
+  // Serialize file access so concurrent writes don't clobber each other
+  protected lock: Promise<unknown> = Promise.resolve();
+
+  constructor(protected readonly options: FileSessionStoreOptions) {
+    this.encryption = new PassphraseEncryption(options.secret);
+  }
+
+  async get(key: string) {
+    return await this.withLock(async () => (await this.read())[key]);
+  }
+  async set(key: string, value: string) {
+    await this.withLock(async () => {
+      const data = await this.read();
+      data[key] = value;
+      await this.write(data);
+    });
+  }
+  async del(key: string) {
+    await this.withLock(async () => {
+      const data = await this.read();
+      if (!(key in data)) return;
+      delete data[key];
+      await this.write(data);
+    });
+  }
+  async keys(prefix: string) {
+    return await this.withLock(async () =>
+      Object.keys(await this.read()).filter((key) => key.startsWith(prefix)),
+    );
+  }
+
+  protected withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn);
+    this.lock = result.catch(() => {});
+    return result;
+  }
+
+  protected async read(): Promise<{ [key: string]: string }> {
+    const fs = await importFs();
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.options.path, "utf8");
+    } catch (e) {
+      if (isErrorWithCode(e, "ENOENT")) return {};
+      throw e;
+    }
+
+    const file = EncryptedFileSchema.parse(JSON.parse(contents));
+    let plaintext: string;
+    try {
+      plaintext = await this.encryption.decrypt(file);
+    } catch {
+      throw new Error(
+        `Could not decrypt session store ${this.options.path} - wrong secret?`,
+      );
+    }
+
+    const data = StoreDataSchema.safeParse(JSON.parse(plaintext));
+    if (!data.success) {
+      throw new Error(`Session store ${this.options.path} is invalid`);
+    }
+    return data.data;
+  }
+
+  protected async write(data: { [key: string]: string }) {
+    const fs = await importFs();
+
+    const file: EncryptedFile = {
+      version: ENCRYPTED_FILE_VERSION,
+      ...(await this.encryption.encrypt(JSON.stringify(data))),
+    };
+
+    // Write to a temporary file first so a crash
+    // never leaves a half-written store behind
+    const temporaryPath = `${this.options.path}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(file), {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+    await fs.rename(temporaryPath, this.options.path);
+  }
+}
+
+export const PassphraseEncryptedSchema = object({
+  salt: string(),
+  iv: string(),
+  ciphertext: string(),
+});
+export type PassphraseEncrypted = infer_<typeof PassphraseEncryptedSchema>;
+
+/**
+ * Encrypts strings with AES-GCM under a key
+ * derived from a passphrase with PBKDF2.
+ */
+export class PassphraseEncryption {
+  protected readonly stringEncoder = new StringEncoder();
+  protected key: { salt: Uint8Array; key: Promise<CryptoKey> } | undefined;
+
+  constructor(protected readonly passphrase: string) {}
+
+  async encrypt(plaintext: string): Promise<PassphraseEncrypted> {
+    const salt = this.key?.salt ?? crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      await this.getKey(salt),
+      new TextEncoder().encode(plaintext),
+    );
+    return {
+      salt: await this.stringEncoder.encode(
+        STRING_ENCODER_METHOD_BASE64URL,
+        salt,
+      ),
+      iv: await this.stringEncoder.encode(STRING_ENCODER_METHOD_BASE64URL, iv),
+      ciphertext: await this.stringEncoder.encode(
+        STRING_ENCODER_METHOD_BASE64URL,
+        new Uint8Array(ciphertext),
+      ),
+    };
+  }
+
+  async decrypt(encrypted: PassphraseEncrypted): Promise<string> {
+    const salt = await this.stringEncoder.decode(encrypted.salt);
+    const iv = await this.stringEncoder.decode(encrypted.iv);
+    const ciphertext = await this.stringEncoder.decode(encrypted.ciphertext);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: iv as Uint8Array<ArrayBuffer> },
+      await this.getKey(salt),
+      ciphertext as Uint8Array<ArrayBuffer>,
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  protected getKey(salt: Uint8Array): Promise<CryptoKey> {
+    // Key derivation is slow on purpose, so only do it once per salt
+    if (
+      !this.key ||
+      this.key.salt.length !== salt.length ||
+      this.key.salt.some((byte, i) => byte !== salt[i])
+    ) {
+      this.key = { salt, key: deriveKey(this.passphrase, salt) };
+    }
+    return this.key.key;
+  }
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return await crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: salt as Uint8Array<ArrayBuffer>,
+      iterations: PBKDF2_ITERATIONS,
+      hash: "SHA-256",
+    },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+const PBKDF2_ITERATIONS = 600_000;
+const ENCRYPTED_FILE_VERSION = 1;
+const EncryptedFileSchema = extend(PassphraseEncryptedSchema, {
+  version: literal(ENCRYPTED_FILE_VERSION),
+});
+type EncryptedFile = infer_<typeof EncryptedFileSchema>;
+const StoreDataSchema = record(string(), string());
@@ -0,0 +1,426 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { Sessions } from "./1-sessions";
+import { MemorySessionStore, type SessionStore } from "./1-session-stores";
+import { DecentralizedIdentifiers } from "../1-services/2-dids";
+import { MemoryDIDDocumentCache } from "../1-services/2-did-caches";
+import { GraffitiErrorUnauthorized } from "../1-services/utilities";
+import type {
+  Authorization,
+  AuthorizationGrant,
+} from "../1-services/1-authorization";
+import type { StorageBuckets } from "../1-services/3-storage-buckets";
+import type { Inboxes } from "../1-services/4-inboxes";
+
+const actor = "did:example:sessions";
+const authorizationEndpoint = "oauth2:https://auth.example";
+const storageBucketEndpoint = "https://bucket.example";
+const personalInboxEndpoint = "https://inbox.example/personal";
+const sharedInboxEndpoint = "https://inbox.example/shared";
+
+function createSessions(
+  refresh: (
+    authorizationEndpoint: string,
+    refreshToken: string,
+  ) => Promise<AuthorizationGrant>,
+  options?: {
+    verifyToken?: (serviceEndpoint: string, token: string) => Promise<void>;
+    revoke?: (
+      authorizationEndpoint: string,
+      token: string,
+      refreshToken?: string,
+    ) => Promise<void>;
+    store?: SessionStore;
+    login?: (popup?: Window) => void;
+    releasePopup?: () => void;
+  },
+) {
+  const revoke = options?.revoke ?? (async () => {});
+  const eventTarget = new EventTarget();
+  let logins = 0;
+  const service = {
+    getAuthorizationEndpoint: async () => authorizationEndpoint,
+    verifyToken: options?.verifyToken ?? (async () => {}),
+  };
+  return new Sessions(
+    {
+      dids: new DecentralizedIdentifiers({
+        cache: new MemoryDIDDocumentCache(),
+        pinned: {
+          [actor]: {
+            id: actor,
+            service: [
+              {
+                id: "#graffitiStorageBucket",
+                type: "GraffitiStorageBucket",
+                serviceEndpoint: storageBucketEndpoint,
+              },
+              {
+                id: "#graffitiPersonalInbox",
+                type: "GraffitiInbox",
+                serviceEndpoint: personalInboxEndpoint,
+              },
+              {
+                id: "#graffitiSharedInbox_0",
+                type: "GraffitiInbox",
+                serviceEndpoint: sharedInboxEndpoint,
+              },
+            ],
+          },
+        },
+      }),
+      authorization: {
+        eventTarget,
+        refresh,
+        revoke,
+        logout: async (_: string, logoutId: string) => {
+          eventTarget.dispatchEvent(
+            new CustomEvent("logout", { detail: { logoutId } }),
+          );
+        },
+        // Grants a new token right away
+        login: async (
+          _: string,
+          loginId: string,
+          __: string[],
+          popup?: Window,
+        ) => {
+          options?.login?.(popup);
+          eventTarget.dispatchEvent(
+            new CustomEvent("login", {
+              detail: { loginId, token: `granted ${++logins}` },
+            }),
+          );
+        },
+        releasePopup: options?.releasePopup ?? (() => {}),
+      } as unknown as Authorization,
+      storageBuckets: service as unknown as StorageBuckets,
+      inboxes: service as unknown as Inboxes,
+    },
+    { store: options?.store ?? new MemorySessionStore() },
+  );
+}
+
+// Accepts only the refreshed token
+async function request(token: string) {
+  if (token !== "fresh") throw new GraffitiErrorUnauthorized("Expired");
+  return token;
+}
+
+export function sessionTests() {
+  describe("Sessions", () => {
+    test("rejected tokens are refreshed and retried", async () => {
+      const refresh = vi.fn(async () => ({
+        token: "fresh",
+        refreshToken: "rotated",
+      }));
+      const sessions = createSessions(refresh);
+      await sessions.loginWithTokens(actor, {
+        [authorizationEndpoint]: { token: "stale", refreshToken: "refresh" },
+      });
+
+      for (const endpoint of [storageBucketEndpoint, personalInboxEndpoint]) {
+        await expect(
+          sessions.withAuthorization({ actor }, endpoint, request),
+        ).resolves.toBe("fresh");
+      }
+      // The first refresh updated every service it authorizes
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(refresh).toHaveBeenCalledWith(authorizationEndpoint, "refresh");
+
+      const resolved = await sessions.resolveSession({ actor });
+      expect(resolved.sharedInboxes[0].token).toBe("fresh");
+      expect(resolved.sharedInboxes[0].refreshToken).toBe("rotated");
+      const state = await sessions.getSessionState(actor);
+      expect(
+        state?.services.find((s) => s.serviceEndpoint === storageBucketEndpoint)
+          ?.status,
+      ).toBe("authorized");
+    });
+
+    test("concurrent rejections share a refresh", async () => {
+      const refresh = vi.fn(async () => ({ token: "fresh" }));
+      const sessions = createSessions(refresh);
+      await sessions.loginWithTokens(actor, {
+        [authorizationEndpoint]: { token: "stale", refreshToken: "refresh" },
+      });
+
+      const results = await Promise.all(
+        [storageBucketEndpoint, personalInboxEndpoint, sharedInboxEndpoint].map(
+          (endpoint) =>
+            sessions.withAuthorization({ actor }, endpoint, request),
+        ),
+      );
+      expect(results).toEqual(["fresh", "fresh", "fresh"]);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    test("tokens about to expire are refreshed before use", async () => {
+      const refresh = vi.fn(async () => ({ token: "fresh" }));
+      const sessions = createSessions(refresh);
+      await sessions.loginWithTokens(actor, {
+        [authorizationEndpoint]: {
+          token: "stale",
+          refreshToken: "refresh",
+          expiresAt: Date.now() + 1000,
+        },
+      });
+
+      const resolved = await sessions.resolveSession({ actor });
+      expect(resolved.storageBucket.token).toBe("fresh");
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    test("failed refreshes reject the request", async () => {
+      const refresh = vi.fn(async () => {
+        throw new Error("invalid_grant");
+      });
+      const sessions = createSessions(refresh);
+      await sessions.loginWithTokens(actor, {
+        [authorizationEndpoint]: { token: "stale", refreshToken: "refresh" },
+      });
+
+      const rejected = vi.fn(request);
+      await expect(
+        sessions.withAuthorization({ actor }, storageBucketEndpoint, rejected),
+      ).rejects.toThrow("invalid_grant");
+      expect(rejected).toHaveBeenCalledTimes(1);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    test("rejected tokens without a refresh token are unauthorized", async () => {
+      const refresh = vi.fn(async () => ({ token: "fresh" }));
+      const sessions = createSessions(refresh);
+      await sessions.loginWithTokens(actor, {
+        [authorizationEndpoint]: "stale",
+      });
+
+      await expect(
+        sessions.withAuthorization({ actor }, storageBucketEndpoint, request),
+      ).rejects.toThrow(GraffitiErrorUnauthorized);
+      expect(refresh).not.toHaveBeenCalled();
+
+      const state = await sessions.getSessionState(actor);
+      expect(
+        state?.services.find((s) => s.serviceEndpoint === storageBucketEndpoint)
+          ?.status,
+      ).toBe("unauthorized");
+    });
+
+    test("unreachable services are reported without failing", async () => {
+      let failing = false;
+      const sessions = createSessions(async () => ({ token: "fresh" }), {
+        verifyToken: async (serviceEndpoint) => {
+          if (!failing) return;
+          if (serviceEndpoint === personalInboxEndpoint) {
+            throw new TypeError("fetch failed");
+          }
+          if (serviceEndpoint === sharedInboxEndpoint) {
+            throw new GraffitiErrorUnauthorized("Expired");
+          }
+        },
+      });
+      await sessions.loginWithTokens(actor, {
+        [authorizationEndpoint]: "token",
+      });
+
+      failing = true;
+      const state = await sessions.verifySession(actor);
+      const statuses = Object.fromEntries(
+        state.services.map((s) => [s.serviceEndpoint, s.status]),
+      );
+      expect(statuses).toEqual({
+        [storageBucketEndpoint]: "authorized",
+        [personalInboxEndpoint]: "unreachable",
+        [sharedInboxEndpoint]: "unauthorized",
+      });
+    });
+
+    test("reauthorizing revokes the replaced tokens", async () => {
+      const revoke = vi.fn(async () => {});
+      const sessions = createSessions(async () => ({ token: "fresh" }), {
+        revoke,
+      });
+      await sessions.loginWithTokens(actor, {
+        [authorizationEndpoint]: { token: "old", refreshToken: "old refresh" },
+      });
+
+      const loggedIn = new Promise((resolve) =>
+        sessions.sessionEvents.addEventListener("login", resolve, {
+          once: true,
+        }),
+      );
+      await sessions.reauthorize(actor, personalInboxEndpoint);
+      await loggedIn;
+
+      const resolved = await sessions.resolveSession({ actor });
+      expect(resolved.personalInbox.token).toBe("granted 1");
+      expect(revoke).toHaveBeenCalledExactlyOnceWith(
+        authorizationEndpoint,
+        "old",
+        "old refresh",
+      );
+    });
+
+    test("popups are passed on and released", async () => {
+      const login = vi.fn();
+      const releasePopup = vi.fn();
+      const sessions = createSessions(async () => ({ token: "fresh" }), {
+        login,
+        releasePopup,
+      });
+      await sessions.loginWithTokens(actor, {
+        [authorizationEndpoint]: { token: "old" },
+      });
+
+      const popup = {} as Window;
+      await sessions.reauthorize(actor, personalInboxEndpoint, popup);
+      expect(login).toHaveBeenCalledExactlyOnceWith(popup);
+      expect(releasePopup).toHaveBeenCalledTimes(1);
+
+      // Released even if there is nothing to authorize
+      await sessions.updateServices(actor, popup);
+      expect(login).toHaveBeenCalledTimes(1);
+      expect(releasePopup).toHaveBeenCalledTimes(2);
+    });
+
+    test("abandoned logins and logouts expire", async () => {
+      const store = new MemorySessionStore();
+      const longAgo = Date.now() - 2 * 60 * 60 * 1000;
+      const entries = {
+        "graffiti-login-in-progress:abandoned": { startedAt: longAgo },
+        "graffiti-logout-in-progress:abandoned": { startedAt: longAgo },
+        "graffiti-login-in-progress:legacy": {},
+        "graffiti-login-in-progress:recent": { startedAt: Date.now() },
+      };
+      for (const [key, value] of Object.entries(entries)) {
+        await store.set(key, JSON.stringify(value));
+      }
+
+      createSessions(async () => ({ token: "fresh" }), { store });
+      await vi.waitFor(async () =>
+        expect(await store.keys("graffiti-")).toEqual([
+          "graffiti-login-in-progress:recent",
+        ]),
+      );
+    });
+
+    describe("across tabs", () => {
+      // Each instance acts as a tab sharing the store, the
+      // broadcast channel, and locks held by name
+      function stubTabs() {
+        const held = new Map<string, Promise<unknown>>();
+        vi.stubGlobal("window", { location: new URL("https://app.example") });
+        vi.stubGlobal("navigator", {
+          locks: {
+            request: (name: string, fn: () => Promise<unknown>) => {
+              const result = (held.get(name) ?? Promise.resolve()).then(fn);
+              held.set(
+                name,
+                result.catch(() => {}),
+              );
+              return result;
+            },
+          },
+        });
+      }
+      afterEach(() => {
+        vi.unstubAllGlobals();
+      });
+
+      test("tabs share a refresh", async () => {
+        stubTabs();
+        const store = new MemorySessionStore();
+        const refresh = vi.fn(async () => ({
+          token: "fresh",
+          refreshToken: "rotated",
+        }));
+        const tabs = [
+          createSessions(refresh, { store }),
+          createSessions(refresh, { store }),
+        ];
+        await tabs[0].loginWithTokens(actor, {
+          [authorizationEndpoint]: { token: "stale", refreshToken: "refresh" },
+        });
+
+        const results = await Promise.all(
+          tabs.map((tab) =>
+            tab.withAuthorization({ actor }, storageBucketEndpoint, request),
+          ),
+        );
+        expect(results).toEqual(["fresh", "fresh"]);
+        expect(refresh).toHaveBeenCalledExactlyOnceWith(
+          authorizationEndpoint,
+          "refresh",
+        );
+        tabs.forEach((tab) => tab.close());
+      });
+
+      test("logins and logouts reach other tabs", async () => {
+        stubTabs();
+        const store = new MemorySessionStore();
+        const tabs = [
+          createSessions(async () => ({ token: "fresh" }), { store }),
+          createSessions(async () => ({ token: "fresh" }), { store }),
+        ];
+        const events: string[] = [];
+        for (const type of ["login", "logout"]) {
+          tabs[1].sessionEvents.addEventListener(type, (event) =>
+            events.push(`${type} ${(event as CustomEvent).detail.error ?? ""}`),
+          );
+        }
+
+        await tabs[0].loginWithTokens(actor, {
+          [authorizationEndpoint]: "token",
+        });
+        await vi.waitFor(() => expect(events).toContain("login "));
+        await expect(tabs[1].getSessionState(actor)).resolves.toBeDefined();
+
+        await tabs[0].logout(actor);
+        await vi.waitFor(() => expect(events.at(-1)).toBe("logout "));
+        await expect(tabs[1].getSessionState(actor)).resolves.toBeUndefined();
+
+        tabs.forEach((tab) => tab.close());
+      });
+    });
+
+    test("sessions with unnormalized endpoints still match", async () => {
+      const exporting = createSessions(async () => ({ token: "fresh" }));
+      await exporting.loginWithTokens(actor, {
+        [authorizationEndpoint]: "token",
+      });
+      // As stored before endpoints were normalized
+      const exported = (await exporting.exportSession(actor)).replaceAll(
+        storageBucketEndpoint,
+        "https://BUCKET.example/",
+      );
+      expect(exported).toContain("https://BUCKET.example/");
+
+      const importing = createSessions(async () => ({ token: "fresh" }));
+      const onLogin = vi.fn();
+      importing.sessionEvents.addEventListener("login", (event) =>
+        onLogin((event as CustomEvent).detail.error),
+      );
+      await importing.importSession(exported);
+      expect(onLogin).toHaveBeenLastCalledWith(undefined);
+
+      const changes = await importing.checkServices(actor);
+      expect(changes.added).toEqual([]);
+      expect(changes.removed).toEqual([]);
+      const resolved = await importing.resolveSession({ actor });
+      expect(resolved.storageBucket.serviceEndpoint).toBe(
+        storageBucketEndpoint,
+      );
+    });
+
+    test("resolving a missing session does not log out", async () => {
+      const sessions = createSessions(async () => ({ token: "fresh" }));
+      const onLogout = vi.fn();
+      sessions.sessionEvents.addEventListener("logout", onLogout);
+
+      await expect(sessions.resolveSession({ actor })).rejects.toThrow(
+        GraffitiErrorUnauthorized,
+      );
+      expect(onLogout).not.toHaveBeenCalled();
+    });
+  });
+}
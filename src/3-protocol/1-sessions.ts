@@ -6,14 +6,32 @@ import type {
   GraffitiSessionInitializedEvent,
 } from "@graffiti-garden/api";
 import { DecentralizedIdentifiers } from "../1-services/2-dids";
+import {
+  DID_SERVICE_TYPE_GRAFFITI_INBOX,
+  DID_SERVICE_TYPE_GRAFFITI_STORAGE_BUCKET,
+  DID_SERVICE_ID_GRAFFITI_PERSONAL_INBOX,
+  DID_SERVICE_ID_GRAFFITI_STORAGE_BUCKET,
+  DID_SERVICE_ID_GRAFFITI_SHARED_INBOX_PREFIX,
+  normalizeServiceEndpoint,
+} from "../1-services/2-did-validation";
 import {
   InitializedEventDetailSchema,
   LoginEventDetailSchema,
   LogoutEventDetailSchema,
+  AuthorizationGrantSchema,
   type Authorization,
+  type AuthorizationGrant,
 } from "../1-services/1-authorization";
+import { GraffitiErrorUnauthorized } from "../1-services/utilities";
 import { StorageBuckets } from "../1-services/3-storage-buckets";
 import type { Inboxes } from "../1-services/4-inboxes";
+import {
+  LocalStorageSessionStore,
+  MemorySessionStore,
+  PassphraseEncryptedSchema,
+  PassphraseEncryption,
+  type SessionStore,
+} from "./1-session-stores";
 import type { Service } from "did-resolver";
 import {
   type infer as infer_,
@@ -23,18 +41,88 @@ import {
   object,
   url,
   tuple,
+  number,
+  optional,
   enum as enum_,
+  union,
+  literal,
+  unknown as unknown_,
+  boolean,
 } from "zod/mini";
 
-export const DID_SERVICE_TYPE_GRAFFITI_INBOX = "GraffitiInbox";
-export const DID_SERVICE_TYPE_GRAFFITI_STORAGE_BUCKET = "GraffitiStorageBucket";
-export const DID_SERVICE_ID_GRAFFITI_PERSONAL_INBOX = "#graffitiPersonalInbox";
-export const DID_SERVICE_ID_GRAFFITI_STORAGE_BUCKET = "#graffitiStorageBucket";
-export const DID_SERVICE_ID_GRAFFITI_SHARED_INBOX_PREFIX =
-  "#graffitiSharedInbox_";
+export {
+  DID_SERVICE_TYPE_GRAFFITI_INBOX,
+  DID_SERVICE_TYPE_GRAFFITI_STORAGE_BUCKET,
+  DID_SERVICE_ID_GRAFFITI_PERSONAL_INBOX,
+  DID_SERVICE_ID_GRAFFITI_STORAGE_BUCKET,
+  DID_SERVICE_ID_GRAFFITI_SHARED_INBOX_PREFIX,
+};
+
+export type ServiceStatus =
+  "unknown" | "authorized" | "unauthorized" | "unreachable";
+
+export interface ServiceState {
+  type: "bucket" | "personal-inbox" | "shared-inbox";
+  serviceEndpoint: string;
+  authorizationEndpoint: string;
+  /**
+   * Whether the service accepted the token the last time
+   * it was used, or `unknown` if it has not been used yet.
+   * A service is `unreachable` if the last check of its
+   * token failed for any reason other than the token,
+   * such as a network error or a server error.
+   */
+  status: ServiceStatus;
+  /**
+   * When the service last accepted the token,
+   * in milliseconds since the epoch.
+   */
+  lastVerified?: number;
+}
+
+export interface SessionState {
+  actor: string;
+  services: ServiceState[];
+}
+
+/**
+ * Dispatched on `sessionEvents` as `statechange` when
+ * an actor logs in or out or the status of one of
+ * their services changes. When an actor logs out,
+ * their services are empty.
+ */
+export type SessionStateChangeEvent = CustomEvent<SessionState>;
+
+export interface ServiceChange {
+  type: ServiceState["type"];
+  serviceEndpoint: string;
+  authorizationEndpoint: string;
+}
+
+export interface ServiceChanges {
+  actor: string;
+  /**
+   * Services in the actor's DID document
+   * that are not part of their session
+   */
+  added: ServiceChange[];
+  /**
+   * Services in the actor's session that are
+   * no longer in their DID document
+   */
+  removed: ServiceChange[];
+}
+
+/**
+ * Dispatched on `sessionEvents` as `servicechange` when
+ * an actor's DID document no longer matches their session.
+ * Call `updateServices` to bring the session up to date.
+ */
+export type ServiceChangeEvent = CustomEvent<ServiceChanges>;
 
 export class Sessions {
   sessionEvents: Graffiti["sessionEvents"] = new EventTarget();
+  protected readonly store: SessionStore;
 
   constructor(
     protected readonly services: {
@@ -43,7 +131,46 @@ export class Sessions {
       readonly storageBuckets: StorageBuckets;
       readonly inboxes: Inboxes;
     },
+    options?: {
+      store?: SessionStore;
+      /**
+       * How often to check each logged in actor's
+       * DID document for changed services, in milliseconds.
+       * If not set, services are only checked on demand.
+       */
+      serviceCheckInterval?: number;
+    },
   ) {
+    this.store =
+      options?.store ??
+      (typeof window !== "undefined"
+        ? new LocalStorageSessionStore()
+        : defaultMemorySessionStore);
+
+    // Keep other tabs of the app in sync
+    if (typeof window !== "undefined") {
+      this.channel = new BroadcastChannel(BROADCAST_CHANNEL_SESSIONS);
+      this.channel.addEventListener("message", (e) =>
+        this.onSessionBroadcast(e.data).catch(console.error),
+      );
+    }
+
+    if (options?.serviceCheckInterval) {
+      this.serviceCheckInterval = setInterval(async () => {
+        for (const { actor } of await this.getLoggedInSessions()) {
+          try {
+            await this.checkServices(actor);
+          } catch (e) {
+            console.error(`Error checking services of ${actor}:`, e);
+          }
+        }
+      }, options.serviceCheckInterval);
+      // Don't keep Node.js processes alive just to check
+      if (typeof this.serviceCheckInterval === "object") {
+        this.serviceCheckInterval.unref?.();
+      }
+    }
+
     const initializedPromise = new Promise<void>((resolve) => {
       this.services.authorization.eventTarget.addEventListener(
         "initialized",
@@ -93,10 +220,12 @@ export class Sessions {
       // Allow listeners to be added before dispatching events
       await new Promise((resolve) => setTimeout(resolve, 0));
 
+      await this.expireInProgress().catch(console.error);
+
       // Wait for login to complete, if there
       await loginPromise;
 
-      for (const session of this.loggedInSessions) {
+      for (const session of await this.getLoggedInSessions()) {
         const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
           detail: { session: { actor: session.actor } },
         });
@@ -113,14 +242,59 @@ export class Sessions {
     })();
   }
 
-  protected inProgressLogin: infer_<typeof InProgressSchema> | undefined =
-    undefined;
-  protected inProgressLogout: infer_<typeof InProgressSchema> | undefined =
-    undefined;
+  protected serviceCheckInterval: ReturnType<typeof setInterval> | undefined;
 
-  async login(actor: string) {
+  /**
+   * Deletes logins and logouts that were started long
+   * enough ago that they must have been abandoned,
+   * for example by closing the tab during a redirect.
+   */
+  protected async expireInProgress() {
+    if (!this.store.keys) return;
+    for (const prefix of [
+      STORE_IN_PROGRESS_LOGIN_KEY,
+      STORE_IN_PROGRESS_LOGOUT_KEY,
+    ]) {
+      for (const key of await this.store.keys(`${prefix}:`)) {
+        const data = await this.store.get(key);
+        let startedAt: number | undefined;
+        try {
+          startedAt = InProgressStartSchema.parse(
+            JSON.parse(data ?? "null"),
+          ).startedAt;
+        } catch {
+          // Unreadable, so it can't be finished anyway
+        }
+        if (
+          startedAt === undefined ||
+          Date.now() - startedAt > IN_PROGRESS_EXPIRATION_MS
+        ) {
+          await this.store.del(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stops checking services and stops syncing with
+   * other tabs. Sessions are left in the store.
+   */
+  close(): void {
+    clearInterval(this.serviceCheckInterval);
+    this.serviceCheckInterval = undefined;
+    this.channel?.close();
+    this.channel = undefined;
+  }
+
+  /**
+   * Logs in as the actor. A popup opened with
+   * {@link Authorization.openPopup} while handling the click
+   * that started the login is used for the first authorization
+   * and released once the login is over.
+   */
+  async login(actor: string, popup?: Window) {
     try {
-      await this.login_(actor);
+      await this.login_(actor, popup);
     } catch (e) {
       const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
         detail: {
@@ -129,11 +303,13 @@ export class Sessions {
         },
       });
       this.sessionEvents.dispatchEvent(loginEvent);
+    } finally {
+      if (popup) this.services.authorization.releasePopup();
     }
   }
-  protected async login_(actor: string) {
+  protected async login_(actor: string, popup?: Window) {
     // First look to see if we're already logged in
-    const existingSession = this.loggedInSessions.find(
+    const existingSession = (await this.getLoggedInSessions()).find(
       (session) => session.actor === actor,
     );
     if (existingSession) {
@@ -143,7 +319,48 @@ export class Sessions {
       return;
     }
 
-    const actorDocument = await this.services.dids.resolve(actor);
+    const servicesByAuthorization =
+      await this.resolveServicesByAuthorization(actor);
+
+    const session: GraffitiSession = { actor };
+
+    await this.beginLogin(
+      {
+        ...session,
+        grants: [],
+        servicesByAuthorization,
+      },
+      popup,
+    );
+  }
+
+  protected async beginLogin(inProgressLogin: InProgressLogin, popup?: Window) {
+    // Key the in-progress login by its own id, so
+    // that other logins can happen at the same time
+    const loginId = createProgressId(inProgressLogin.actor);
+
+    // Store the in-progress session so it survives redirects
+    await this.store.set(
+      progressKey(STORE_IN_PROGRESS_LOGIN_KEY, loginId),
+      JSON.stringify({ ...inProgressLogin, startedAt: Date.now() }),
+    );
+
+    // Start the login process with the first endpoint
+    const [firstAuthorizationEndpoint, firstServices] =
+      inProgressLogin.servicesByAuthorization[0];
+    await this.services.authorization.login(
+      firstAuthorizationEndpoint,
+      loginId,
+      firstServices.map((s) => s.endpoint),
+      popup,
+    );
+  }
+
+  protected async resolveServicesByAuthorization(
+    actor: string,
+    options?: { noCache?: boolean },
+  ): Promise<ServicesByAuthorization> {
+    const actorDocument = await this.services.dids.resolve(actor, options);
 
     const services = actorDocument.service;
     if (!services) {
@@ -224,34 +441,431 @@ export class Sessions {
           .push({ endpoint, type });
       },
     );
-    const servicesByAuthorization = [...servicesByAuthorizationMap.entries()];
+    return [...servicesByAuthorizationMap.entries()];
+  }
+
+  /**
+   * Logs in with tokens that were issued ahead of time,
+   * without any user interaction. Tokens may be keyed either
+   * by authorization endpoint or by service endpoint.
+   */
+  async loginWithTokens(
+    actor: string,
+    tokens: { [endpoint: string]: string | AuthorizationGrant },
+  ) {
+    try {
+      await this.loginWithTokens_(actor, tokens);
+    } catch (e) {
+      const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
+        detail: {
+          error: e instanceof Error ? e : new Error(String(e)),
+          session: { actor },
+        },
+      });
+      this.sessionEvents.dispatchEvent(loginEvent);
+    }
+  }
+  protected async loginWithTokens_(
+    actor: string,
+    tokens: { [endpoint: string]: string | AuthorizationGrant },
+  ) {
+    const servicesByAuthorization =
+      await this.resolveServicesByAuthorization(actor);
+
+    // Find the token for each authorization endpoint
+    const grants = servicesByAuthorization.map(
+      ([authorizationEndpoint, services]) => {
+        const candidates = [
+          tokens[authorizationEndpoint],
+          ...services.map((s) => tokens[s.endpoint]),
+        ]
+          .filter((t) => t !== undefined)
+          .map((t) => (typeof t === "string" ? { token: t } : t));
+        const grant = candidates.at(0);
+        if (!grant) {
+          throw new Error(`No token provided for ${authorizationEndpoint}`);
+        }
+        if (candidates.some((c) => c.token !== grant.token)) {
+          throw new Error(
+            `Services authorized by ${authorizationEndpoint} must share a token`,
+          );
+        }
+        return grant;
+      },
+    );
 
-    const session: GraffitiSession = { actor };
+    // Make sure each token actually works
+    await Promise.all(
+      servicesByAuthorization.flatMap(([_, services], index) =>
+        services.map(({ endpoint, type }) =>
+          type === "bucket"
+            ? this.services.storageBuckets.verifyToken(
+                endpoint,
+                grants[index].token,
+              )
+            : this.services.inboxes.verifyToken(endpoint, grants[index].token),
+        ),
+      ),
+    );
 
-    const inProgressLogin: infer_<typeof InProgressSchema> = {
-      ...session,
-      tokens: [],
+    const session = buildStoredSession({
+      actor,
+      grants,
       servicesByAuthorization,
+    });
+
+    // Store the session, replacing any
+    // existing session for the same actor
+    await this.updateLoggedInSessions((sessions) => [
+      ...sessions.filter((s) => s.actor !== actor),
+      session,
+    ]);
+    this.clearServiceStatuses(actor);
+    await this.reportServiceStatus(
+      actor,
+      servicesByAuthorization.flatMap(([_, services]) =>
+        services.map((s) => s.endpoint),
+      ),
+      true,
+    );
+    this.broadcastSessionChange("login", actor);
+
+    const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
+      detail: { session: { actor } },
+    });
+    this.sessionEvents.dispatchEvent(loginEvent);
+  }
+
+  /**
+   * Serializes an actor's session so it can be moved
+   * to another device or process and imported there
+   * with {@link importSession}. If a passphrase is given,
+   * the session is encrypted with it.
+   */
+  async exportSession(actor: string, passphrase?: string): Promise<string> {
+    const session = (await this.getLoggedInSessions()).find(
+      (s) => s.actor === actor,
+    );
+    if (!session) {
+      throw new Error(`No session found for actor ${actor}`);
+    }
+
+    const exported: infer_<typeof SessionExportSchema> = passphrase
+      ? {
+          version: SESSION_EXPORT_VERSION,
+          encrypted: await new PassphraseEncryption(passphrase).encrypt(
+            JSON.stringify(session),
+          ),
+        }
+      : { version: SESSION_EXPORT_VERSION, session };
+    return JSON.stringify(exported);
+  }
+
+  /**
+   * Logs in with a session serialized by {@link exportSession}.
+   * The result is reported through a `login` event.
+   */
+  async importSession(exported: string, passphrase?: string) {
+    let actor: string | undefined;
+    try {
+      const session = await this.parseExportedSession(exported, passphrase);
+      actor = session.actor;
+      await this.importSession_(session);
+    } catch (e) {
+      const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
+        detail: {
+          error: e instanceof Error ? e : new Error(String(e)),
+          session: actor ? { actor } : undefined,
+        },
+      });
+      this.sessionEvents.dispatchEvent(loginEvent);
+    }
+  }
+  protected async parseExportedSession(
+    exported: string,
+    passphrase?: string,
+  ): Promise<StoredSession> {
+    const parsed = SessionExportSchema.parse(JSON.parse(exported));
+    if (!("encrypted" in parsed)) {
+      return StoredSessionSchema.parse(parsed.session);
+    }
+
+    if (!passphrase) {
+      throw new Error("Exported session is encrypted but no passphrase given");
+    }
+    let decrypted: string;
+    try {
+      decrypted = await new PassphraseEncryption(passphrase).decrypt(
+        parsed.encrypted,
+      );
+    } catch {
+      throw new Error("Could not decrypt exported session - wrong passphrase?");
+    }
+    return StoredSessionSchema.parse(JSON.parse(decrypted));
+  }
+  protected async importSession_(exportedSession: StoredSession) {
+    const session = normalizeSessionEndpoints(exportedSession);
+
+    // Make sure the session is still for the
+    // services listed in the actor's DID document
+    const servicesByAuthorization = await this.resolveServicesByAuthorization(
+      session.actor,
+    );
+    if (
+      !servicesByAuthorizationMatch(
+        servicesByAuthorization,
+        session.servicesByAuthorization,
+      )
+    ) {
+      throw new Error(
+        `The services of ${session.actor} have changed since the session was exported`,
+      );
+    }
+
+    await this.updateLoggedInSessions((sessions) => [
+      ...sessions.filter((s) => s.actor !== session.actor),
+      session,
+    ]);
+    this.clearServiceStatuses(session.actor);
+    await this.dispatchStateChange(session.actor);
+    this.broadcastSessionChange("login", session.actor);
+
+    const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
+      detail: { session: { actor: session.actor } },
+    });
+    this.sessionEvents.dispatchEvent(loginEvent);
+  }
+
+  /**
+   * Logs back in to just the group of services that share an
+   * authorization endpoint with the given service or authorization
+   * endpoint, replacing their tokens in the existing session.
+   * The result is reported through a `login` event. Like with
+   * {@link login}, a popup opened during the click is used
+   * for the authorization and released once it is over.
+   */
+  async reauthorize(actor: string, endpoint: string, popup?: Window) {
+    try {
+      await this.reauthorize_(actor, endpoint, popup);
+    } catch (e) {
+      const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
+        detail: {
+          error: e instanceof Error ? e : new Error(String(e)),
+          session: { actor },
+        },
+      });
+      this.sessionEvents.dispatchEvent(loginEvent);
+    } finally {
+      if (popup) this.services.authorization.releasePopup();
+    }
+  }
+  protected async reauthorize_(
+    actor: string,
+    endpoint: string,
+    popup?: Window,
+  ) {
+    const session = (await this.getLoggedInSessions()).find(
+      (s) => s.actor === actor,
+    );
+    if (!session) {
+      throw new Error(`No session found for actor ${actor}`);
+    }
+
+    const group = session.servicesByAuthorization.find(
+      ([authorizationEndpoint, services]) =>
+        authorizationEndpoint === endpoint ||
+        services.some((s) => s.endpoint === endpoint),
+    );
+    if (!group) {
+      throw new Error(`${endpoint} is not part of the session for ${actor}`);
+    }
+
+    await this.beginLogin(
+      {
+        actor,
+        grants: [],
+        servicesByAuthorization: [group],
+        reauthorization: true,
+      },
+      popup,
+    );
+  }
+
+  protected async patchSession(
+    authorized: InProgressLogin,
+    servicesByAuthorization?: ServicesByAuthorization,
+  ) {
+    const { actor } = authorized;
+    let previous: StoredSession | undefined;
+    let updated: StoredSession | undefined;
+    await this.updateLoggedInSessions((sessions) =>
+      sessions.map((current) => {
+        if (current.actor !== actor) return current;
+        previous = current;
+        updated = mergeAuthorizations(
+          current,
+          authorized,
+          servicesByAuthorization ?? current.servicesByAuthorization,
+        );
+        return updated;
+      }),
+    );
+    if (!previous || !updated) {
+      throw new Error(`Session for actor ${actor} ended during login`);
+    }
+
+    // Revoke the tokens that were replaced or whose services are
+    // gone, so they don't stay usable for the rest of their lifetime
+    const kept = new Set(
+      listServiceSessions(updated).flatMap((s) => [s.token, s.refreshToken]),
+    );
+    for (const [authorizationEndpoint, _] of previous.servicesByAuthorization) {
+      const grant = sessionGrant(previous, authorizationEndpoint);
+      if (!grant || kept.has(grant.token)) continue;
+      this.services.authorization
+        .revoke(
+          authorizationEndpoint,
+          grant.token,
+          grant.refreshToken && !kept.has(grant.refreshToken)
+            ? grant.refreshToken
+            : undefined,
+        )
+        .catch((e) => console.error("Error revoking replaced token:", e));
+    }
+
+    // Forget the status of services that are
+    // gone or that have new, unused tokens
+    for (const {
+      serviceEndpoint,
+      authorizationEndpoint,
+    } of listServiceSessions(previous)) {
+      if (
+        servicesByAuthorization?.every(([_, services]) =>
+          services.every((s) => s.endpoint !== serviceEndpoint),
+        ) ||
+        authorized.servicesByAuthorization.some(
+          ([endpoint, _]) => endpoint === authorizationEndpoint,
+        )
+      ) {
+        this.serviceStatuses.delete(`${actor} ${serviceEndpoint}`);
+      }
+    }
+  }
+
+  /**
+   * Compares an actor's session against the latest version
+   * of their DID document. If services have been added or
+   * removed since they logged in, and they have changed since
+   * the last check, a `servicechange` event is dispatched.
+   */
+  async checkServices(actor: string): Promise<ServiceChanges> {
+    const session = (await this.getLoggedInSessions()).find(
+      (s) => s.actor === actor,
+    );
+    if (!session) {
+      throw new Error(`No session found for actor ${actor}`);
+    }
+
+    const servicesByAuthorization = await this.resolveServicesByAuthorization(
+      actor,
+      { noCache: true },
+    );
+    const changes: ServiceChanges = {
+      actor,
+      ...diffServices(session.servicesByAuthorization, servicesByAuthorization),
     };
 
-    if (typeof window !== "undefined") {
-      // Store the in-progress session in localStorage
-      window.localStorage.setItem(
-        LOCAL_STORAGE_IN_PROGRESS_LOGIN_KEY,
-        JSON.stringify(inProgressLogin),
+    const changesString = JSON.stringify(changes);
+    if (
+      (changes.added.length || changes.removed.length) &&
+      this.lastServiceChanges.get(actor) !== changesString
+    ) {
+      const serviceChangeEvent: ServiceChangeEvent = new CustomEvent(
+        "servicechange",
+        { detail: changes },
       );
-    } else {
-      this.inProgressLogin = inProgressLogin;
+      this.sessionEvents.dispatchEvent(serviceChangeEvent);
     }
+    this.lastServiceChanges.set(actor, changesString);
+    return changes;
+  }
+  protected lastServiceChanges = new Map<string, string>();
 
-    // Start the login process with the first endpoint
-    const [firstAuthorizationEndpoint, firstServices] =
-      servicesByAuthorization[0];
-    await this.services.authorization.login(
-      firstAuthorizationEndpoint,
+  /**
+   * Brings an actor's session up to date with their DID document.
+   * Removed services are dropped from the session and only
+   * new or changed services are authorized. The result is
+   * reported through a `login` event. Like with {@link login},
+   * a popup opened during the click is used for any
+   * authorization and released once it is over.
+   */
+  async updateServices(actor: string, popup?: Window) {
+    try {
+      await this.updateServices_(actor, popup);
+    } catch (e) {
+      const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
+        detail: {
+          error: e instanceof Error ? e : new Error(String(e)),
+          session: { actor },
+        },
+      });
+      this.sessionEvents.dispatchEvent(loginEvent);
+    } finally {
+      if (popup) this.services.authorization.releasePopup();
+    }
+  }
+  protected async updateServices_(actor: string, popup?: Window) {
+    const session = (await this.getLoggedInSessions()).find(
+      (s) => s.actor === actor,
+    );
+    if (!session) {
+      throw new Error(`No session found for actor ${actor}`);
+    }
+
+    const servicesByAuthorization = await this.resolveServicesByAuthorization(
       actor,
-      firstServices.map((s) => s.endpoint),
+      { noCache: true },
     );
+    this.lastServiceChanges.delete(actor);
+
+    // Tokens are scoped to the services they were requested for,
+    // so only groups with services that are new to them need
+    // to be authorized again
+    const unauthorized = servicesByAuthorization.filter(
+      ([authorizationEndpoint, services]) => {
+        const existing = session.servicesByAuthorization.find(
+          ([endpoint, _]) => endpoint === authorizationEndpoint,
+        );
+        return services.some(
+          (service) =>
+            !existing?.[1].some(
+              (s) => s.endpoint === service.endpoint && s.type === service.type,
+            ),
+        );
+      },
+    );
+
+    const inProgressLogin: InProgressLogin = {
+      actor,
+      grants: [],
+      servicesByAuthorization: unauthorized,
+      reauthorization: true,
+      updatedServicesByAuthorization: servicesByAuthorization,
+    };
+
+    if (!unauthorized.length) {
+      // Nothing to authorize, so apply any removals directly
+      await this.patchSession(inProgressLogin, servicesByAuthorization);
+      await this.dispatchStateChange(actor);
+      this.broadcastSessionChange("statechange", actor);
+      const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
+        detail: { session: { actor } },
+      });
+      this.sessionEvents.dispatchEvent(loginEvent);
+      return;
+    }
+
+    await this.beginLogin(inProgressLogin, popup);
   }
 
   protected async onLogin(event: unknown) {
@@ -259,11 +873,16 @@ export class Sessions {
     const parsed = LoginEventDetailSchema.safeParse(event.detail);
     if (!parsed.success) return;
 
-    const actor = parsed.data.loginId;
+    const actor = progressIdToActor(parsed.data.loginId);
 
     try {
       await this.onLogin_(parsed.data);
     } catch (e) {
+      // Abandon the login
+      await this.store
+        .del(progressKey(STORE_IN_PROGRESS_LOGIN_KEY, parsed.data.loginId))
+        .catch(console.error);
+
       const LoginEvent: GraffitiLoginEvent = new CustomEvent("login", {
         detail: {
           error: e instanceof Error ? e : new Error(String(e)),
@@ -276,68 +895,46 @@ export class Sessions {
   protected async onLogin_(loginDetail: infer_<typeof LoginEventDetailSchema>) {
     if (loginDetail.error) throw loginDetail.error;
 
-    const token = loginDetail.token;
-    const actor = loginDetail.loginId;
+    const { token, refreshToken, expiresAt, loginId } = loginDetail;
+    const inProgressKey = progressKey(STORE_IN_PROGRESS_LOGIN_KEY, loginId);
 
     // Lookup the in-progress session
-    let inProgressLogin: infer_<typeof InProgressSchema>;
-    if (typeof window !== "undefined") {
-      const inProgressLoginString = window.localStorage.getItem(
-        LOCAL_STORAGE_IN_PROGRESS_LOGIN_KEY,
-      );
-      if (!inProgressLoginString) {
-        throw new Error("No in-progress login found");
-      }
-
-      const json = JSON.parse(inProgressLoginString);
-      inProgressLogin = InProgressSchema.parse(json);
-    } else {
-      if (!this.inProgressLogin) {
-        throw new Error("No in-progress login found");
-      }
-      inProgressLogin = this.inProgressLogin;
-    }
-
-    if (inProgressLogin.actor !== actor) {
-      throw new Error("Actor mismatch in login response - concurrent logins?");
+    const inProgressLogin = await this.getInProgress(
+      inProgressKey,
+      InProgressLoginSchema,
+    );
+    if (!inProgressLogin) {
+      throw new Error("No in-progress login found");
     }
+    const actor = inProgressLogin.actor;
 
-    inProgressLogin.tokens.push(token);
+    inProgressLogin.grants.push({ token, refreshToken, expiresAt });
 
     if (
-      inProgressLogin.tokens.length ===
+      inProgressLogin.grants.length ===
       inProgressLogin.servicesByAuthorization.length
     ) {
       // Login complete!
-      if (typeof window === "undefined") {
-        this.inProgressLogin = undefined;
+      await this.store.del(inProgressKey);
+
+      if (inProgressLogin.reauthorization) {
+        // Patch the new tokens into the existing session
+        await this.patchSession(
+          inProgressLogin,
+          inProgressLogin.updatedServicesByAuthorization,
+        );
       } else {
-        window.localStorage.removeItem(LOCAL_STORAGE_IN_PROGRESS_LOGIN_KEY);
+        // Build and store the completed session
+        const session = buildStoredSession(inProgressLogin);
+        await this.updateLoggedInSessions((sessions) => [...sessions, session]);
+        this.clearServiceStatuses(actor);
       }
-
-      // Build the completed session
-      const services = inProgressLogin.servicesByAuthorization.flatMap(
-        ([authorizationEndpoint, services], index) =>
-          services.map((service) => ({
-            token: inProgressLogin.tokens[index],
-            serviceEndpoint: service.endpoint,
-            authorizationEndpoint,
-            type: service.type,
-          })),
+      await this.dispatchStateChange(actor);
+      this.broadcastSessionChange(
+        inProgressLogin.reauthorization ? "statechange" : "login",
+        actor,
       );
 
-      const session: StoredSession = {
-        ...inProgressLogin,
-        storageBucket: services.find((s) => s.type === "bucket")!,
-        personalInbox: services.find((s) => s.type === "personal-inbox")!,
-        sharedInboxes: services.filter((s) => s.type === "shared-inbox")!,
-      };
-
-      // Store the completed session
-      const sessions = this.loggedInSessions;
-      sessions.push(session);
-      this.loggedInSessions = sessions;
-
       // Return the completed session
       const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
         detail: { session: { actor } },
@@ -345,21 +942,14 @@ export class Sessions {
       this.sessionEvents.dispatchEvent(loginEvent);
     } else {
       // Store the in progress and continue
-      if (typeof window !== "undefined") {
-        window.localStorage.setItem(
-          LOCAL_STORAGE_IN_PROGRESS_LOGIN_KEY,
-          JSON.stringify(inProgressLogin),
-        );
-      } else {
-        this.inProgressLogin = inProgressLogin;
-      }
+      await this.store.set(inProgressKey, JSON.stringify(inProgressLogin));
 
       // Continue to the next authorization endpoint
       const [authorizationEndpoint, services] =
-        inProgressLogin.servicesByAuthorization[inProgressLogin.tokens.length];
+        inProgressLogin.servicesByAuthorization[inProgressLogin.grants.length];
       await this.services.authorization.login(
         authorizationEndpoint,
-        actor,
+        loginId,
         services.map((s) => s.endpoint),
       );
     }
@@ -379,7 +969,7 @@ export class Sessions {
     }
   }
   protected async logout_(actor: string) {
-    const session = this.loggedInSessions.find(
+    const session = (await this.getLoggedInSessions()).find(
       (session) => session.actor === actor,
     );
     if (!session) {
@@ -387,9 +977,12 @@ export class Sessions {
     }
 
     // Remove the session(s)
-    this.loggedInSessions = this.loggedInSessions.filter(
-      (session) => session.actor !== actor,
+    await this.updateLoggedInSessions((sessions) =>
+      sessions.filter((session) => session.actor !== actor),
     );
+    this.clearServiceStatuses(actor);
+    await this.dispatchStateChange(actor);
+    this.broadcastSessionChange("logout", actor);
 
     // Begin the logout
     const token = session.tokens.pop();
@@ -397,20 +990,26 @@ export class Sessions {
       throw new Error("No tokens found in session");
     }
     // Store the in progress logout
-    if (typeof window !== "undefined") {
-      window.localStorage.setItem(
-        LOCAL_STORAGE_IN_PROGRESS_LOGOUT_KEY,
-        JSON.stringify(session),
-      );
-    } else {
-      this.inProgressLogout = session;
-    }
+    const logoutId = createProgressId(actor);
+    const inProgressLogout: InProgressLogout = {
+      ...session,
+      startedAt: Date.now(),
+    };
+    await this.store.set(
+      progressKey(STORE_IN_PROGRESS_LOGOUT_KEY, logoutId),
+      JSON.stringify(inProgressLogout),
+    );
     const [authorizationEndpoint, _] =
       session.servicesByAuthorization[session.tokens.length];
+    const refreshToken = sessionGrant(
+      session,
+      authorizationEndpoint,
+    )?.refreshToken;
     await this.services.authorization.logout(
       authorizationEndpoint,
-      actor,
+      logoutId,
       token,
+      refreshToken,
     );
   }
 
@@ -419,11 +1018,16 @@ export class Sessions {
     const parsed = LogoutEventDetailSchema.safeParse(event.detail);
     if (!parsed.success) return;
 
-    const actor = parsed.data.logoutId;
+    const actor = progressIdToActor(parsed.data.logoutId);
 
     try {
       await this.onLogout_(parsed.data);
     } catch (e) {
+      // Abandon the logout
+      await this.store
+        .del(progressKey(STORE_IN_PROGRESS_LOGOUT_KEY, parsed.data.logoutId))
+        .catch(console.error);
+
       const logoutEvent: GraffitiLogoutEvent = new CustomEvent("logout", {
         detail: {
           error: e instanceof Error ? e : new Error(String(e)),
@@ -438,41 +1042,23 @@ export class Sessions {
   ) {
     if (logoutDetail.error) throw logoutDetail.error;
 
-    const actor = logoutDetail.logoutId;
+    const logoutId = logoutDetail.logoutId;
+    const inProgressKey = progressKey(STORE_IN_PROGRESS_LOGOUT_KEY, logoutId);
 
     // Lookup the in-progress session
-    let inProgressLogout: infer_<typeof InProgressSchema>;
-    if (typeof window !== "undefined") {
-      const inProgressLogoutString = window.localStorage.getItem(
-        LOCAL_STORAGE_IN_PROGRESS_LOGOUT_KEY,
-      );
-      if (!inProgressLogoutString) {
-        throw new Error("No in-progress logout found");
-      }
-
-      const json = JSON.parse(inProgressLogoutString);
-      inProgressLogout = InProgressSchema.parse(json);
-    } else {
-      if (!this.inProgressLogout) {
-        throw new Error("No in-progress logout found");
-      }
-      inProgressLogout = this.inProgressLogout;
-    }
-
-    if (inProgressLogout.actor !== actor) {
-      throw new Error(
-        "Actor mismatch in logout response - concurrent logouts?",
-      );
+    const inProgressLogout = await this.getInProgress(
+      inProgressKey,
+      InProgressLogoutSchema,
+    );
+    if (!inProgressLogout) {
+      throw new Error("No in-progress logout found");
     }
+    const actor = inProgressLogout.actor;
 
     const token = inProgressLogout.tokens.pop();
     if (!token) {
       // Logout complete
-      if (typeof window === "undefined") {
-        this.inProgressLogout = undefined;
-      } else {
-        window.localStorage.removeItem(LOCAL_STORAGE_IN_PROGRESS_LOGOUT_KEY);
-      }
+      await this.store.del(inProgressKey);
 
       const logoutEvent: GraffitiLogoutEvent = new CustomEvent("logout", {
         detail: { actor },
@@ -480,34 +1066,36 @@ export class Sessions {
       this.sessionEvents.dispatchEvent(logoutEvent);
     } else {
       // Store the in progress and continue
-      if (typeof window !== "undefined") {
-        window.localStorage.setItem(
-          LOCAL_STORAGE_IN_PROGRESS_LOGOUT_KEY,
-          JSON.stringify(inProgressLogout),
-        );
-      } else {
-        this.inProgressLogout = inProgressLogout;
-      }
+      await this.store.set(inProgressKey, JSON.stringify(inProgressLogout));
 
       // Continue to the next authorization endpoint
       const [authorizationEndpoint, _] =
         inProgressLogout.servicesByAuthorization[
           inProgressLogout.tokens.length
         ];
+      const refreshToken = sessionGrant(
+        inProgressLogout,
+        authorizationEndpoint,
+      )?.refreshToken;
       await this.services.authorization.logout(
         authorizationEndpoint,
-        actor,
+        logoutId,
         token,
+        refreshToken,
       );
     }
   }
 
-  protected get loggedInSessions(): StoredSession[] {
-    if (typeof window === "undefined") return loggedInSessions_;
+  protected async getInProgress<
+    Schema extends typeof InProgressLoginSchema | typeof InProgressLogoutSchema,
+  >(key: string, schema: Schema): Promise<infer_<Schema> | undefined> {
+    const data = await this.store.get(key);
+    if (data === undefined) return undefined;
+    return schema.parse(JSON.parse(data)) as infer_<Schema>;
+  }
 
-    const data = window.localStorage.getItem(
-      LOCAL_STORAGE_LOGGED_IN_SESSIONS_KEY,
-    );
+  protected async getLoggedInSessions(): Promise<StoredSession[]> {
+    const data = await this.store.get(STORE_LOGGED_IN_SESSIONS_KEY);
     if (!data) return [];
 
     let json: unknown;
@@ -515,49 +1103,408 @@ export class Sessions {
       json = JSON.parse(data);
     } catch {
       console.error("Error parsing stored session data");
-      window.localStorage.removeItem(LOCAL_STORAGE_LOGGED_IN_SESSIONS_KEY);
+      await this.store.del(STORE_LOGGED_IN_SESSIONS_KEY);
       return [];
     }
 
     const parsed = array(StoredSessionSchema).safeParse(json);
     if (!parsed.success) {
       console.error("Stored session data is invalid");
-      window.localStorage.removeItem(LOCAL_STORAGE_LOGGED_IN_SESSIONS_KEY);
+      await this.store.del(STORE_LOGGED_IN_SESSIONS_KEY);
       return [];
     }
-    return parsed.data;
+    // Sessions stored before endpoints were normalized
+    // would otherwise never match their DID documents
+    return parsed.data.map(normalizeSessionEndpoints);
   }
-  protected set loggedInSessions(sessions: StoredSession[]) {
-    if (typeof window === "undefined") {
-      loggedInSessions_ = sessions;
-      return;
-    }
 
-    window.localStorage.setItem(
-      LOCAL_STORAGE_LOGGED_IN_SESSIONS_KEY,
-      JSON.stringify(sessions),
-    );
+  protected loggedInSessionsLock: Promise<unknown> = Promise.resolve();
+  protected updateLoggedInSessions(
+    update: (sessions: StoredSession[]) => StoredSession[],
+  ): Promise<void> {
+    // Serialize updates so concurrent logins, logouts
+    // and refreshes don't overwrite each other
+    const result = this.loggedInSessionsLock.then(async () => {
+      const sessions = await this.getLoggedInSessions();
+      await this.store.set(
+        STORE_LOGGED_IN_SESSIONS_KEY,
+        JSON.stringify(update(sessions)),
+      );
+    });
+    this.loggedInSessionsLock = result.catch(() => {});
+    return result;
   }
 
-  resolveSession(session: GraffitiSession): StoredSession {
-    const resolvedSession = this.loggedInSessions.find(
+  async resolveSession(session: GraffitiSession): Promise<StoredSession> {
+    let resolvedSession = (await this.getLoggedInSessions()).find(
       (s) => s.actor === session.actor,
     );
     if (!resolvedSession) {
+      // Logouts, including ones from other tabs, already
+      // dispatch their own events, so there's nothing to announce
+      throw new GraffitiErrorUnauthorized("Not logged in");
+    }
+
+    // Refresh any tokens that are about to expire
+    for (const [
+      authorizationEndpoint,
+      _,
+    ] of resolvedSession.servicesByAuthorization) {
+      const grant = sessionGrant(resolvedSession, authorizationEndpoint);
+      if (
+        grant?.refreshToken &&
+        grant.expiresAt !== undefined &&
+        grant.expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS
+      ) {
+        try {
+          resolvedSession = await this.refreshAuthorization(
+            session.actor,
+            authorizationEndpoint,
+          );
+        } catch (e) {
+          // The old token may still work, so let the
+          // request go through and fail if it doesn't
+          console.error("Error refreshing authorization:", e);
+        }
+      }
+    }
+
+    return resolvedSession;
+  }
+
+  /**
+   * Makes an authorized request to one of the actor's services.
+   * If the request is rejected as unauthorized, the token is
+   * refreshed and the request is retried once.
+   */
+  async withAuthorization<T>(
+    session: GraffitiSession,
+    serviceEndpoint: string,
+    request: (token: string) => Promise<T>,
+  ): Promise<T> {
+    const resolvedSession = await this.resolveSession(session);
+    const service = findServiceSession(resolvedSession, serviceEndpoint);
+
+    try {
+      const result = await request(service.token);
+      await this.reportServiceStatus(session.actor, [serviceEndpoint], true);
+      return result;
+    } catch (e) {
+      if (!(e instanceof GraffitiErrorUnauthorized)) throw e;
+      if (!service.refreshToken) {
+        await this.reportServiceStatus(session.actor, [serviceEndpoint], false);
+        throw e;
+      }
+    }
+
+    let result: T;
+    try {
+      const refreshedSession = await this.refreshAuthorization(
+        session.actor,
+        service.authorizationEndpoint,
+      );
+      const refreshedService = findServiceSession(
+        refreshedSession,
+        serviceEndpoint,
+      );
+      result = await request(refreshedService.token);
+    } catch (e) {
+      if (e instanceof GraffitiErrorUnauthorized) {
+        await this.reportServiceStatus(session.actor, [serviceEndpoint], false);
+      }
+      throw e;
+    }
+    await this.reportServiceStatus(session.actor, [serviceEndpoint], true);
+    return result;
+  }
+
+  protected serviceStatuses = new Map<
+    string,
+    { status: ServiceStatus; lastVerified?: number }
+  >();
+
+  /**
+   * Lists the state of every logged in actor's services.
+   */
+  async getSessionStates(): Promise<SessionState[]> {
+    return (await this.getLoggedInSessions()).map((session) =>
+      this.buildSessionState(session),
+    );
+  }
+
+  /**
+   * Gets the state of an actor's services,
+   * or undefined if the actor is not logged in.
+   */
+  async getSessionState(actor: string): Promise<SessionState | undefined> {
+    const session = (await this.getLoggedInSessions()).find(
+      (s) => s.actor === actor,
+    );
+    return session ? this.buildSessionState(session) : undefined;
+  }
+
+  /**
+   * Checks every one of an actor's service tokens
+   * against its service and returns the resulting state.
+   */
+  async verifySession(actor: string): Promise<SessionState> {
+    const session = (await this.getLoggedInSessions()).find(
+      (s) => s.actor === actor,
+    );
+    if (!session) {
+      throw new Error(`No session found for actor ${actor}`);
+    }
+
+    const results = await Promise.all(
+      listServiceSessions(session).map(async ({ type, ...service }) => {
+        try {
+          await (type === "bucket"
+            ? this.services.storageBuckets.verifyToken(
+                service.serviceEndpoint,
+                service.token,
+              )
+            : this.services.inboxes.verifyToken(
+                service.serviceEndpoint,
+                service.token,
+              ));
+          return {
+            serviceEndpoint: service.serviceEndpoint,
+            status: "authorized" as const,
+          };
+        } catch (e) {
+          if (e instanceof GraffitiErrorUnauthorized) {
+            return {
+              serviceEndpoint: service.serviceEndpoint,
+              status: "unauthorized" as const,
+            };
+          }
+          console.error(
+            `Error verifying token for ${service.serviceEndpoint}:`,
+            e,
+          );
+          return {
+            serviceEndpoint: service.serviceEndpoint,
+            status: "unreachable" as const,
+          };
+        }
+      }),
+    );
+    for (const status of [
+      "authorized",
+      "unauthorized",
+      "unreachable",
+    ] as const) {
+      await this.setServiceStatuses(
+        actor,
+        results
+          .filter((r) => r.status === status)
+          .map((r) => r.serviceEndpoint),
+        status,
+      );
+    }
+
+    return (await this.getSessionState(actor))!;
+  }
+
+  /**
+   * Records whether services accepted an actor's token,
+   * dispatching a `statechange` event if their status changed.
+   */
+  async reportServiceStatus(
+    actor: string,
+    serviceEndpoints: string[],
+    authorized: boolean,
+  ) {
+    await this.setServiceStatuses(
+      actor,
+      serviceEndpoints,
+      authorized ? "authorized" : "unauthorized",
+    );
+  }
+  protected async setServiceStatuses(
+    actor: string,
+    serviceEndpoints: string[],
+    status: Exclude<ServiceStatus, "unknown">,
+  ) {
+    let changed = false;
+    for (const serviceEndpoint of serviceEndpoints) {
+      const statusKey = `${actor} ${serviceEndpoint}`;
+      const previous = this.serviceStatuses.get(statusKey);
+      if ((previous?.status ?? "unknown") !== status) changed = true;
+      this.serviceStatuses.set(statusKey, {
+        status,
+        lastVerified:
+          status === "authorized" ? Date.now() : previous?.lastVerified,
+      });
+    }
+    if (changed) await this.dispatchStateChange(actor);
+  }
+
+  protected clearServiceStatuses(actor: string) {
+    for (const statusKey of this.serviceStatuses.keys()) {
+      if (statusKey.startsWith(`${actor} `)) {
+        this.serviceStatuses.delete(statusKey);
+      }
+    }
+  }
+
+  protected channel: BroadcastChannel | undefined;
+  protected broadcastSessionChange(
+    type: infer_<typeof SessionBroadcastSchema>["type"],
+    actor: string,
+  ) {
+    const message: infer_<typeof SessionBroadcastSchema> = { type, actor };
+    this.channel?.postMessage(message);
+  }
+  protected async onSessionBroadcast(data: unknown) {
+    const parsed = SessionBroadcastSchema.safeParse(data);
+    if (!parsed.success) return;
+    const { type, actor } = parsed.data;
+
+    // Another tab changed the session, so
+    // any statuses here are out of date
+    if (type !== "statechange") this.clearServiceStatuses(actor);
+    await this.dispatchStateChange(actor);
+
+    if (type === "login") {
+      const loginEvent: GraffitiLoginEvent = new CustomEvent("login", {
+        detail: { session: { actor } },
+      });
+      this.sessionEvents.dispatchEvent(loginEvent);
+    } else if (type === "logout") {
       const logoutEvent: GraffitiLogoutEvent = new CustomEvent("logout", {
-        detail: { actor: session.actor },
+        detail: { actor },
       });
       this.sessionEvents.dispatchEvent(logoutEvent);
-      throw new Error("Not logged in");
     }
-    return resolvedSession;
+  }
+
+  protected async dispatchStateChange(actor: string) {
+    const state = (await this.getSessionState(actor)) ?? {
+      actor,
+      services: [],
+    };
+    const stateChangeEvent: SessionStateChangeEvent = new CustomEvent(
+      "statechange",
+      { detail: state },
+    );
+    this.sessionEvents.dispatchEvent(stateChangeEvent);
+  }
+
+  protected buildSessionState(session: StoredSession): SessionState {
+    return {
+      actor: session.actor,
+      services: listServiceSessions(session).map(
+        ({ type, serviceEndpoint, authorizationEndpoint }) => ({
+          type,
+          serviceEndpoint,
+          authorizationEndpoint,
+          status: "unknown",
+          ...this.serviceStatuses.get(`${session.actor} ${serviceEndpoint}`),
+        }),
+      ),
+    };
+  }
+
+  protected refreshesInProgress = new Map<string, Promise<StoredSession>>();
+  protected refreshAuthorization(
+    actor: string,
+    authorizationEndpoint: string,
+  ): Promise<StoredSession> {
+    // Deduplicate concurrent refreshes, since many
+    // requests may be rejected at once and refresh
+    // tokens may only be usable a single time
+    const refreshKey = `${actor} ${authorizationEndpoint}`;
+    const existing = this.refreshesInProgress.get(refreshKey);
+    if (existing) return existing;
+
+    const refresh = this.refreshAuthorization_(
+      actor,
+      authorizationEndpoint,
+    ).finally(() => this.refreshesInProgress.delete(refreshKey));
+    this.refreshesInProgress.set(refreshKey, refresh);
+    return refresh;
+  }
+  protected async refreshAuthorization_(
+    actor: string,
+    authorizationEndpoint: string,
+  ): Promise<StoredSession> {
+    const findSession = async () =>
+      (await this.getLoggedInSessions()).find((s) => s.actor === actor);
+    const initial = await findSession();
+    const staleToken = initial
+      ? sessionGrant(initial, authorizationEndpoint)?.token
+      : undefined;
+
+    // Other tabs share the stored session, so only one of
+    // them may use the refresh token at a time. Once a tab
+    // has the lock, it checks if another tab already refreshed.
+    return await withCrossTabLock(
+      `${CROSS_TAB_LOCK_REFRESH}:${actor} ${authorizationEndpoint}`,
+      async () => {
+        const session = await findSession();
+        if (!session) {
+          throw new Error(`No session found for actor ${actor}`);
+        }
+        const grant = sessionGrant(session, authorizationEndpoint);
+        if (grant && grant.token !== staleToken) return session;
+        return await this.refreshSession(session, authorizationEndpoint);
+      },
+    );
+  }
+  protected async refreshSession(
+    session: StoredSession,
+    authorizationEndpoint: string,
+  ): Promise<StoredSession> {
+    const actor = session.actor;
+    const refreshToken = sessionGrant(
+      session,
+      authorizationEndpoint,
+    )?.refreshToken;
+    if (!refreshToken) {
+      throw new GraffitiErrorUnauthorized(
+        `No refresh token available for ${authorizationEndpoint}`,
+      );
+    }
+
+    const grant = await this.services.authorization.refresh(
+      authorizationEndpoint,
+      refreshToken,
+    );
+
+    // Look the session up again in case it changed
+    // while the refresh was happening
+    let current: StoredSession | undefined;
+    await this.updateLoggedInSessions((sessions) => {
+      current = sessions.find((s) => s.actor === actor);
+      if (current) updateAuthorization(current, authorizationEndpoint, grant);
+      return sessions;
+    });
+    if (!current) {
+      throw new Error(`Session for actor ${actor} ended during refresh`);
+    }
+    return current;
   }
 }
-let loggedInSessions_: StoredSession[] = [];
+// Shared so that sessions outlive any single instance
+const defaultMemorySessionStore = new MemorySessionStore();
+
+// Refresh tokens a little before they actually expire
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
 
-const LOCAL_STORAGE_IN_PROGRESS_LOGIN_KEY = "graffiti-login-in-progress";
-const LOCAL_STORAGE_IN_PROGRESS_LOGOUT_KEY = "graffiti-logout-in-progress";
-const LOCAL_STORAGE_LOGGED_IN_SESSIONS_KEY = "graffiti-sessions-logged-in";
+const BROADCAST_CHANNEL_SESSIONS = "graffiti-sessions";
+const CROSS_TAB_LOCK_REFRESH = "graffiti-sessions-refresh";
+const SessionBroadcastSchema = object({
+  type: enum_(["login", "logout", "statechange"]),
+  actor: url(),
+});
+
+const STORE_IN_PROGRESS_LOGIN_KEY = "graffiti-login-in-progress";
+const STORE_IN_PROGRESS_LOGOUT_KEY = "graffiti-logout-in-progress";
+// Long enough for a user to finish logging in
+// to every one of an actor's authorization servers
+const IN_PROGRESS_EXPIRATION_MS = 60 * 60 * 1000; // 1 hour
+const STORE_LOGGED_IN_SESSIONS_KEY = "graffiti-sessions-logged-in";
 
 const GraffitiSessionSchema = object({
   actor: url(),
@@ -565,6 +1512,8 @@ const GraffitiSessionSchema = object({
 
 const ServiceSessionSchema = object({
   token: string(),
+  refreshToken: optional(string()),
+  expiresAt: optional(number()),
   serviceEndpoint: url(),
   authorizationEndpoint: url(),
 });
@@ -581,11 +1530,26 @@ const ServicesByAuthorizationSchema = array(
   ]),
 );
 
+type ServicesByAuthorization = infer_<typeof ServicesByAuthorizationSchema>;
+
 const InProgressSchema = extend(GraffitiSessionSchema, {
   tokens: array(string()),
   servicesByAuthorization: ServicesByAuthorizationSchema,
 });
 
+const InProgressLoginSchema = extend(GraffitiSessionSchema, {
+  // The grant from each authorization endpoint logged in to so far
+  grants: array(AuthorizationGrantSchema),
+  servicesByAuthorization: ServicesByAuthorizationSchema,
+  // Whether the tokens replace those of an existing session
+  reauthorization: optional(boolean()),
+  // The services the existing session will have afterwards, if changed
+  updatedServicesByAuthorization: optional(ServicesByAuthorizationSchema),
+  // When the login began, in milliseconds since the epoch
+  startedAt: optional(number()),
+});
+type InProgressLogin = infer_<typeof InProgressLoginSchema>;
+
 const StoredSessionSchema = extend(InProgressSchema, {
   storageBucket: ServiceSessionSchema,
   personalInbox: ServiceSessionSchema,
@@ -594,6 +1558,242 @@ const StoredSessionSchema = extend(InProgressSchema, {
 
 type StoredSession = infer_<typeof StoredSessionSchema>;
 
+const InProgressLogoutSchema = extend(StoredSessionSchema, {
+  // When the logout began, in milliseconds since the epoch
+  startedAt: optional(number()),
+});
+type InProgressLogout = infer_<typeof InProgressLogoutSchema>;
+
+const InProgressStartSchema = object({ startedAt: optional(number()) });
+
+const SESSION_EXPORT_VERSION = 1;
+const SessionExportSchema = union([
+  object({
+    version: literal(SESSION_EXPORT_VERSION),
+    // Validated separately so the error is about the session
+    session: unknown_(),
+  }),
+  object({
+    version: literal(SESSION_EXPORT_VERSION),
+    encrypted: PassphraseEncryptedSchema,
+  }),
+]);
+type ServiceSession = infer_<typeof ServiceSessionSchema>;
+
+function buildStoredSession(
+  inProgressLogin: Pick<
+    InProgressLogin,
+    "actor" | "grants" | "servicesByAuthorization"
+  >,
+): StoredSession {
+  const { actor, grants, servicesByAuthorization } = inProgressLogin;
+  const services = servicesByAuthorization.flatMap(
+    ([authorizationEndpoint, services], index) =>
+      services.map((service) => ({
+        ...grants[index],
+        serviceEndpoint: service.endpoint,
+        authorizationEndpoint,
+        type: service.type,
+      })),
+  );
+
+  return {
+    actor,
+    tokens: grants.map((grant) => grant.token),
+    servicesByAuthorization,
+    storageBucket: services.find((s) => s.type === "bucket")!,
+    personalInbox: services.find((s) => s.type === "personal-inbox")!,
+    sharedInboxes: services.filter((s) => s.type === "shared-inbox")!,
+  };
+}
+
+function listServiceSessions(
+  session: StoredSession,
+): (ServiceSession & { type: ServiceState["type"] })[] {
+  return [
+    { ...session.storageBucket, type: "bucket" },
+    { ...session.personalInbox, type: "personal-inbox" },
+    ...session.sharedInboxes.map((s) => ({
+      ...s,
+      type: "shared-inbox" as const,
+    })),
+  ];
+}
+
+function normalizeSessionEndpoints(session: StoredSession): StoredSession {
+  const normalize = (service: ServiceSession): ServiceSession => ({
+    ...service,
+    serviceEndpoint: normalizeServiceEndpoint(service.serviceEndpoint),
+  });
+  return {
+    ...session,
+    servicesByAuthorization: session.servicesByAuthorization.map(
+      ([authorizationEndpoint, services]) => [
+        authorizationEndpoint,
+        services.map((service) => ({
+          ...service,
+          endpoint: normalizeServiceEndpoint(service.endpoint),
+        })),
+      ],
+    ),
+    storageBucket: normalize(session.storageBucket),
+    personalInbox: normalize(session.personalInbox),
+    sharedInboxes: session.sharedInboxes.map(normalize),
+  };
+}
+
+function findServiceSession(
+  session: StoredSession,
+  serviceEndpoint: string,
+): ServiceSession {
+  const service = listServiceSessions(session).find(
+    (s) => s.serviceEndpoint === serviceEndpoint,
+  );
+  if (!service) {
+    throw new Error(`Service ${serviceEndpoint} is not part of the session`);
+  }
+  return service;
+}
+
+// Every service authorized by the same
+// endpoint shares the same grant
+function sessionGrant(
+  session: StoredSession,
+  authorizationEndpoint: string,
+): AuthorizationGrant | undefined {
+  const service = listServiceSessions(session).find(
+    (s) => s.authorizationEndpoint === authorizationEndpoint,
+  );
+  if (!service) return undefined;
+  const { token, refreshToken, expiresAt } = service;
+  return { token, refreshToken, expiresAt };
+}
+
+function updateAuthorization(
+  session: StoredSession,
+  authorizationEndpoint: string,
+  grant: AuthorizationGrant,
+) {
+  const index = session.servicesByAuthorization.findIndex(
+    ([endpoint, _]) => endpoint === authorizationEndpoint,
+  );
+  const { token, refreshToken, expiresAt } = grant;
+  session.tokens[index] = token;
+  for (const service of [
+    session.storageBucket,
+    session.personalInbox,
+    ...session.sharedInboxes,
+  ]) {
+    if (service.authorizationEndpoint !== authorizationEndpoint) continue;
+    service.token = token;
+    service.refreshToken = refreshToken;
+    service.expiresAt = expiresAt;
+  }
+}
+
+function servicesByAuthorizationMatch(
+  a: ServicesByAuthorization,
+  b: ServicesByAuthorization,
+): boolean {
+  // Compare irrespective of order
+  const normalize = (servicesByAuthorization: ServicesByAuthorization) =>
+    servicesByAuthorization
+      .flatMap(([authorizationEndpoint, services]) =>
+        services.map(({ endpoint, type }) =>
+          JSON.stringify([authorizationEndpoint, endpoint, type]),
+        ),
+      )
+      .sort();
+  const normalizedA = normalize(a);
+  const normalizedB = normalize(b);
+  return (
+    normalizedA.length === normalizedB.length &&
+    normalizedA.every((service, i) => service === normalizedB[i])
+  );
+}
+
+function flattenServices(
+  servicesByAuthorization: ServicesByAuthorization,
+): ServiceChange[] {
+  return servicesByAuthorization.flatMap(([authorizationEndpoint, services]) =>
+    services.map(({ endpoint, type }) => ({
+      type,
+      serviceEndpoint: endpoint,
+      authorizationEndpoint,
+    })),
+  );
+}
+
+function diffServices(
+  before: ServicesByAuthorization,
+  after: ServicesByAuthorization,
+): Pick<ServiceChanges, "added" | "removed"> {
+  const beforeServices = flattenServices(before);
+  const afterServices = flattenServices(after);
+  const isSame = (a: ServiceChange, b: ServiceChange) =>
+    a.type === b.type &&
+    a.serviceEndpoint === b.serviceEndpoint &&
+    a.authorizationEndpoint === b.authorizationEndpoint;
+  return {
+    added: afterServices.filter(
+      (a) => !beforeServices.some((b) => isSame(a, b)),
+    ),
+    removed: beforeServices.filter(
+      (b) => !afterServices.some((a) => isSame(a, b)),
+    ),
+  };
+}
+
+function mergeAuthorizations(
+  current: StoredSession,
+  authorized: InProgressLogin,
+  servicesByAuthorization: ServicesByAuthorization,
+): StoredSession {
+  const grants = servicesByAuthorization.map(([authorizationEndpoint, _]) => {
+    // Prefer newly authorized tokens over existing ones
+    const index = authorized.servicesByAuthorization.findIndex(
+      ([endpoint, _]) => endpoint === authorizationEndpoint,
+    );
+    const grant =
+      index >= 0 && index < authorized.grants.length
+        ? authorized.grants[index]
+        : sessionGrant(current, authorizationEndpoint);
+    if (!grant) throw new Error(`No token for ${authorizationEndpoint}`);
+    return grant;
+  });
+
+  return buildStoredSession({
+    actor: current.actor,
+    grants,
+    servicesByAuthorization,
+  });
+}
+
+// Holds a lock across every tab of the app, where
+// the Web Locks API is available, while running fn
+async function withCrossTabLock<T>(
+  name: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  return locks ? await locks.request(name, fn) : await fn();
+}
+
+// Login and logout ids start with a random id, so
+// they are unique, and end with the actor, so errors
+// can be attributed even if the progress is lost
+function createProgressId(actor: string): string {
+  return `${crypto.randomUUID()} ${actor}`;
+}
+
+function progressIdToActor(progressId: string): string {
+  return progressId.slice(progressId.indexOf(" ") + 1);
+}
+
+function progressKey(prefix: string, progressId: string): string {
+  return `${prefix}:${progressId}`;
+}
+
 function serviceToEndpoint(service: Service): string {
   if (typeof service.serviceEndpoint === "string")
     return service.serviceEndpoint;
@@ -0,0 +1,176 @@
+import type { DecentralizedIdentifiers } from "../1-services/2-dids";
+import { isErrorWithCode } from "../1-services/utilities";
+
+/**
+ * A way of naming actors. An actor claims a handle by listing its
+ * alias in the `alsoKnownAs` field of their DID document, and the
+ * handle must point back at the actor for the claim to be verified.
+ */
+export interface HandleMethod {
+  /**
+   * Returns the handle that an `alsoKnownAs` entry
+   * refers to, if the entry uses this method.
+   */
+  aliasToHandle(alias: string): string | undefined;
+  /**
+   * Returns the `alsoKnownAs` entry that refers
+   * to a handle, if the handle uses this method.
+   */
+  handleToAlias(handle: string): string | undefined;
+  /**
+   * Returns the actor DIDs that a handle points at.
+   * With `noCache`, any cached records should be skipped.
+   */
+  resolveHandle(
+    handle: string,
+    options?: { noCache?: boolean },
+  ): Promise<string[]>;
+}
+
+// Handles are the part of the DID after the prefix
+const WEB_HANDLE_DID_PREFIX = "did:web:";
+
+/**
+ * Handles that are `did:web` identifiers, listing their
+ * actor in the `alsoKnownAs` field of their own DID document.
+ * Any handle that no other method claims is treated as one.
+ */
+export function getWebHandleMethod(
+  dids: DecentralizedIdentifiers,
+): HandleMethod {
+  return {
+    aliasToHandle: (alias) =>
+      alias.startsWith(WEB_HANDLE_DID_PREFIX)
+        ? alias.slice(WEB_HANDLE_DID_PREFIX.length)
+        : undefined,
+    handleToAlias: (handle) => `${WEB_HANDLE_DID_PREFIX}${handle}`,
+    resolveHandle: async (handle, options) => {
+      const handleDocument = await dids.resolve(
+        `${WEB_HANDLE_DID_PREFIX}${handle}`,
+        options,
+      );
+      return handleDocument.alsoKnownAs ?? [];
+    },
+  };
+}
+
+export interface AtprotoHandleMethodOptions {
+  /**
+   * Looks up the TXT records of a domain name, with each record's
+   * strings joined together. Defaults to the system resolver in
+   * Node.js. In the browser, where there is none, handles are
+   * only verified over HTTPS unless one is provided, for example
+   * one that uses DNS over HTTPS. Names with no records should
+   * resolve to an empty list, or reject with an error whose `code`
+   * is `ENOTFOUND` or `ENODATA` like Node.js does. Any other
+   * rejection means the lookup failed.
+   */
+  resolveTxt?: (hostname: string) => Promise<string[]>;
+  /**
+   * How `/.well-known/atproto-did` files are fetched to
+   * verify AT Protocol handles. Defaults to the global `fetch`.
+   * Only a 404 means the file doesn't exist; any other
+   * unsuccessful response means the lookup failed.
+   */
+  fetch?: typeof fetch;
+}
+
+const ATPROTO_HANDLE_PREFIX = "at://";
+const ATPROTO_DNS_PREFIX = "_atproto.";
+const ATPROTO_TXT_PREFIX = "did=";
+const ATPROTO_WELL_KNOWN_PATH = "/.well-known/atproto-did";
+// Returned by Node.js when a name doesn't exist or has no TXT records
+const ATPROTO_DNS_NOT_FOUND_CODES = ["ENOTFOUND", "ENODATA"];
+// https://atproto.com/specs/handle#handle-identifier-syntax
+const ATPROTO_DOMAIN_REGEX =
+  /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+/**
+ * [AT Protocol handles](https://atproto.com/specs/handle),
+ * like `at://alice.example.com`, which point at their actor with
+ * a DNS TXT record at `_atproto.alice.example.com` or a file at
+ * `https://alice.example.com/.well-known/atproto-did`.
+ */
+export function getAtprotoHandleMethod(
+  options?: AtprotoHandleMethodOptions,
+): HandleMethod {
+  const parse = (handle: string) => {
+    if (!handle.startsWith(ATPROTO_HANDLE_PREFIX)) return undefined;
+    const domain = handle.slice(ATPROTO_HANDLE_PREFIX.length);
+    return ATPROTO_DOMAIN_REGEX.test(domain) ? domain : undefined;
+  };
+
+  return {
+    aliasToHandle: (alias) => (parse(alias) ? alias : undefined),
+    handleToAlias: (handle) => (parse(handle) ? handle : undefined),
+    resolveHandle: async (handle) => {
+      const domain = parse(handle);
+      if (!domain) return [];
+
+      const [fromDns, fromHttps] = await Promise.allSettled([
+        resolveAtprotoDns(domain, options?.resolveTxt),
+        resolveAtprotoHttps(domain, options?.fetch ?? fetch),
+      ]);
+      const actors = [fromDns, fromHttps].flatMap((result) =>
+        result.status === "fulfilled" ? result.value : [],
+      );
+      // Only fail if nothing was found, so that
+      // the failure can be told apart from no records
+      const failed = [fromDns, fromHttps].find(
+        (result) => result.status === "rejected",
+      );
+      if (actors.length === 0 && failed) {
+        throw failed.reason;
+      }
+      return [...new Set(actors)];
+    },
+  };
+}
+
+async function resolveAtprotoDns(
+  domain: string,
+  resolveTxt: AtprotoHandleMethodOptions["resolveTxt"],
+): Promise<string[]> {
+  resolveTxt ??= await getSystemResolveTxt();
+  if (!resolveTxt) return [];
+
+  let records: string[];
+  try {
+    records = await resolveTxt(`${ATPROTO_DNS_PREFIX}${domain}`);
+  } catch (e) {
+    if (ATPROTO_DNS_NOT_FOUND_CODES.some((code) => isErrorWithCode(e, code))) {
+      return [];
+    }
+    throw e;
+  }
+  return records
+    .filter((record) => record.startsWith(ATPROTO_TXT_PREFIX))
+    .map((record) => record.slice(ATPROTO_TXT_PREFIX.length).trim());
+}
+
+async function resolveAtprotoHttps(
+  domain: string,
+  fetch_: typeof fetch,
+): Promise<string[]> {
+  const response = await fetch_(`https://${domain}${ATPROTO_WELL_KNOWN_PATH}`);
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new Error(
+      `Could not fetch ${ATPROTO_WELL_KNOWN_PATH} for ${domain}: ${response.status}`,
+    );
+  }
+  const did = (await response.text()).trim();
+  return did.startsWith("did:") ? [did] : [];
+}
+
+async function getSystemResolveTxt(): Promise<
+  AtprotoHandleMethodOptions["resolveTxt"]
+> {
+  try {
+    const dns = await import("node:dns/promises");
+    return async (hostname) =>
+      (await dns.resolveTxt(hostname)).map((chunks) => chunks.join(""));
+  } catch {
+    return undefined;
+  }
+}
@@ -1,6 +1,8 @@
 import { describe, expect, test } from "vitest";
-import { Handles } from "./2-handles";
+import { GraffitiErrorNotFound } from "@graffiti-garden/api";
+import { Handles, type HandleChangeEvent } from "./2-handles";
 import { DecentralizedIdentifiers } from "../1-services/2-dids";
+import type { DIDDocument } from "did-resolver";
 
 export function handleTests(handle: string) {
   describe("Handles", async () => {
@@ -13,5 +15,396 @@ export function handleTests(handle: string) {
       const resolvedHandle = await handles.actorToHandle(actor);
       expect(resolvedHandle).toBe(handle);
     });
+
+    test("batch lookups are cached and deduplicated", async () => {
+      const documents: { [did: string]: DIDDocument } = {
+        "did:example:alice": {
+          id: "did:example:alice",
+          alsoKnownAs: ["did:web:alice.example"],
+        },
+        "did:web:alice.example": {
+          id: "did:web:alice.example",
+          alsoKnownAs: ["did:example:alice"],
+        },
+        "did:example:mallory": {
+          id: "did:example:mallory",
+          alsoKnownAs: ["did:web:bob.example"],
+        },
+        "did:web:bob.example": {
+          id: "did:web:bob.example",
+          alsoKnownAs: ["did:example:bob"],
+        },
+      };
+      let resolutions = 0;
+      const resolver = async (did: string) => {
+        resolutions++;
+        return {
+          didResolutionMetadata: {},
+          didDocument: documents[did] ?? null,
+          didDocumentMetadata: {},
+        };
+      };
+      const cachedHandles = new Handles({
+        dids: new DecentralizedIdentifiers({
+          cacheTtl: 0,
+          methods: { example: resolver, web: resolver },
+        }),
+      });
+
+      const results = await cachedHandles.actorsToHandles([
+        "did:example:alice",
+        "did:example:alice",
+        "did:example:mallory",
+      ]);
+      expect(results.size).toBe(2);
+      expect(results.get("did:example:alice")).toEqual({
+        status: "fulfilled",
+        value: "alice.example",
+      });
+      // Mallory claims Bob's handle, but it doesn't claim them back
+      expect(results.get("did:example:mallory")?.status).toBe("rejected");
+      expect(resolutions).toBe(4);
+
+      // Each direction only remembers what it verified
+      await cachedHandles.actorToHandle("did:example:alice");
+      expect(resolutions).toBe(4);
+      const actors = await cachedHandles.handlesToActors(["alice.example"]);
+      expect(actors.get("alice.example")).toEqual({
+        status: "fulfilled",
+        value: "did:example:alice",
+      });
+      expect(resolutions).toBe(6);
+      await cachedHandles.handleToActor("alice.example");
+      expect(resolutions).toBe(6);
+
+      // Invalidating either side's DID forgets the pair
+      cachedHandles.invalidate("did:web:alice.example");
+      await cachedHandles.actorToHandle("did:example:alice");
+      await cachedHandles.handleToActor("alice.example");
+      expect(resolutions).toBe(10);
+    });
+
+    test("handles found from the handle side don't replace the first alias", async () => {
+      const actor = "did:example:frank";
+      const documents: { [did: string]: DIDDocument } = {
+        [actor]: {
+          id: actor,
+          alsoKnownAs: ["did:web:frank.example", "did:web:frank2.example"],
+        },
+        "did:web:frank.example": {
+          id: "did:web:frank.example",
+          alsoKnownAs: [actor],
+        },
+        "did:web:frank2.example": {
+          id: "did:web:frank2.example",
+          alsoKnownAs: [actor],
+        },
+      };
+      const resolver = async (did: string) => ({
+        didResolutionMetadata: {},
+        didDocument: documents[did] ?? null,
+        didDocumentMetadata: {},
+      });
+      const orderedHandles = new Handles({
+        dids: new DecentralizedIdentifiers({
+          methods: { example: resolver, web: resolver },
+        }),
+      });
+
+      await expect(
+        orderedHandles.handleToActor("frank2.example"),
+      ).resolves.toBe(actor);
+      await expect(orderedHandles.actorToHandle(actor)).resolves.toBe(
+        "frank.example",
+      );
+    });
+
+    test("AT Protocol handles from any alias", async () => {
+      const actor = "did:example:carol";
+      const atprotoHandles = new Handles(
+        {
+          dids: new DecentralizedIdentifiers({
+            pinned: {
+              [actor]: {
+                id: actor,
+                alsoKnownAs: ["https://carol.test", "at://carol.test"],
+              },
+            },
+          }),
+        },
+        {
+          resolveTxt: async (hostname) =>
+            hostname === "_atproto.carol.test" ? [`did=${actor}`] : [],
+          fetch: async () => new Response(null, { status: 404 }),
+        },
+      );
+
+      await expect(atprotoHandles.actorToHandle(actor)).resolves.toBe(
+        "at://carol.test",
+      );
+      await expect(
+        atprotoHandles.handleToActor("at://carol.test"),
+      ).resolves.toBe(actor);
+      await expect(
+        atprotoHandles.handleToActor("at://dave.test"),
+      ).rejects.toThrow();
+    });
+
+    test("AT Protocol lookup errors are surfaced", async () => {
+      const actor = "did:example:grace";
+      let resolveTxt: (hostname: string) => Promise<string[]>;
+      let fetch_: () => Promise<Response>;
+      const atprotoHandles = new Handles(
+        {
+          dids: new DecentralizedIdentifiers({
+            pinned: {
+              [actor]: { id: actor, alsoKnownAs: ["at://grace.test"] },
+            },
+          }),
+        },
+        {
+          resolveTxt: (hostname) => resolveTxt(hostname),
+          fetch: () => fetch_(),
+        },
+      );
+      const notFound = Object.assign(new Error("Not found"), {
+        code: "ENOTFOUND",
+      });
+      const serverFailure = Object.assign(new Error("Server failure"), {
+        code: "ESERVFAIL",
+      });
+      const unreachable = new Error("Network unreachable");
+
+      const failures = [
+        {
+          resolveTxt: async () => [],
+          fetch: async () => {
+            throw unreachable;
+          },
+          reason: unreachable,
+        },
+        {
+          resolveTxt: async () => {
+            throw notFound;
+          },
+          fetch: async () => new Response(null, { status: 503 }),
+          reason: "503",
+        },
+        {
+          resolveTxt: async () => {
+            throw serverFailure;
+          },
+          fetch: async () => new Response(null, { status: 404 }),
+          reason: serverFailure,
+        },
+      ];
+      for (const failure of failures) {
+        resolveTxt = failure.resolveTxt;
+        fetch_ = failure.fetch;
+        const expectReason = (reason: unknown) =>
+          typeof failure.reason === "string"
+            ? expect((reason as Error).message).toContain(failure.reason)
+            : expect(reason).toBe(failure.reason);
+
+        const error = await atprotoHandles.actorToHandle(actor).catch((e) => e);
+        expect(error).toBeInstanceOf(Error);
+        expectReason(error.cause);
+        expectReason(
+          await atprotoHandles.handleToActor("at://grace.test").catch((e) => e),
+        );
+      }
+
+      // Names that don't exist are a mismatch, not a failure
+      resolveTxt = async () => {
+        throw notFound;
+      };
+      fetch_ = async () => new Response(null, { status: 404 });
+      await expect(
+        atprotoHandles.handleToActor("at://grace.test"),
+      ).rejects.toThrow(GraffitiErrorNotFound);
+    });
+
+    test("handle changes and failures are reported", async () => {
+      const actor = "did:example:erin";
+      const documents: { [did: string]: DIDDocument } = {
+        [actor]: { id: actor, alsoKnownAs: ["did:web:erin.example"] },
+        "did:web:erin.example": {
+          id: "did:web:erin.example",
+          alsoKnownAs: [actor],
+        },
+        "did:web:erin2.example": {
+          id: "did:web:erin2.example",
+          alsoKnownAs: [actor],
+        },
+      };
+      const resolver = async (did: string) => ({
+        didResolutionMetadata: {},
+        didDocument: documents[did] ?? null,
+        didDocumentMetadata: {},
+      });
+      const watchedHandles = new Handles({
+        dids: new DecentralizedIdentifiers({
+          methods: { example: resolver, web: resolver },
+        }),
+      });
+      const events: HandleChangeEvent["detail"][] = [];
+      watchedHandles.handleEvents.addEventListener("handlechange", (e) =>
+        events.push((e as HandleChangeEvent).detail),
+      );
+
+      const initial = await watchedHandles.watchHandle(actor);
+      expect(initial.verified?.handle).toBe("erin.example");
+      expect(events).toHaveLength(0);
+
+      documents[actor] = { id: actor, alsoKnownAs: ["did:web:erin2.example"] };
+      const changed = await watchedHandles.checkHandle(actor);
+      expect(changed.verified?.handle).toBe("erin2.example");
+      expect(changed.history.map((h) => h.handle)).toEqual(["erin.example"]);
+      expect(events).toHaveLength(1);
+      expect(events[0].previous.handle).toBe("erin.example");
+      expect(events[0].current?.handle).toBe("erin2.example");
+
+      // The handle's domain is taken over by someone else
+      documents["did:web:erin2.example"] = {
+        id: "did:web:erin2.example",
+        alsoKnownAs: ["did:example:mallory"],
+      };
+      const failed = await watchedHandles.checkHandle(actor);
+      expect(failed.error).toBeDefined();
+      expect(failed.verified?.handle).toBe("erin2.example");
+      await watchedHandles.checkHandle(actor);
+      expect(events).toHaveLength(2);
+      expect(events[1].current).toBeUndefined();
+      await expect(watchedHandles.actorToHandle(actor)).rejects.toThrow();
+
+      watchedHandles.unwatchHandle(actor);
+    });
+
+    test("lookup failures aren't reported as handle changes", async () => {
+      const actor = "did:example:heidi";
+      let offline = false;
+      let delay = 0;
+      let running = 0;
+      let maxRunning = 0;
+      const documents: { [did: string]: DIDDocument } = {
+        [actor]: { id: actor, alsoKnownAs: ["did:web:heidi.example"] },
+        "did:web:heidi.example": {
+          id: "did:web:heidi.example",
+          alsoKnownAs: [actor],
+        },
+      };
+      const resolver = async (did: string) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        try {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          if (offline) throw new Error("Network unreachable");
+          return {
+            didResolutionMetadata: {},
+            didDocument: documents[did] ?? null,
+            didDocumentMetadata: {},
+          };
+        } finally {
+          running--;
+        }
+      };
+      const watchedHandles = new Handles(
+        {
+          dids: new DecentralizedIdentifiers({
+            methods: { example: resolver, web: resolver },
+          }),
+        },
+        { checkInterval: 10 },
+      );
+      const events: HandleChangeEvent["detail"][] = [];
+      watchedHandles.handleEvents.addEventListener("handlechange", (e) =>
+        events.push((e as HandleChangeEvent).detail),
+      );
+
+      await watchedHandles.watchHandle(actor);
+      offline = true;
+      const failed = await watchedHandles.checkHandle(actor);
+      expect(failed.error).toBeDefined();
+      expect(failed.unreachable).toBe(true);
+      expect(failed.verified?.handle).toBe("heidi.example");
+      expect(events).toHaveLength(0);
+      await expect(watchedHandles.actorToHandle(actor)).resolves.toBe(
+        "heidi.example",
+      );
+
+      // The state can't be changed from outside
+      failed.history.push({ handle: "other.example", verifiedAt: 0 });
+      expect(watchedHandles.getHandleState(actor)?.history).toHaveLength(0);
+
+      // Checks that take longer than the interval don't pile up
+      offline = false;
+      delay = 50;
+      maxRunning = 0;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(maxRunning).toBe(1);
+      const recovered = watchedHandles.getHandleState(actor);
+      expect(recovered?.error).toBeUndefined();
+      expect(recovered?.unreachable).toBeUndefined();
+      expect(events).toHaveLength(0);
+
+      watchedHandles.unwatchHandle(actor);
+    });
+
+    test("AT Protocol lookup failures aren't reported as handle changes", async () => {
+      const actor = "did:example:ivan";
+      let resolveTxt = async () => [`did=${actor}`];
+      let fetch_ = async () => new Response(null, { status: 404 });
+      const watchedHandles = new Handles(
+        {
+          dids: new DecentralizedIdentifiers({
+            pinned: {
+              [actor]: { id: actor, alsoKnownAs: ["at://ivan.test"] },
+            },
+          }),
+        },
+        {
+          resolveTxt: () => resolveTxt(),
+          fetch: () => fetch_(),
+        },
+      );
+      const events: HandleChangeEvent["detail"][] = [];
+      watchedHandles.handleEvents.addEventListener("handlechange", (e) =>
+        events.push((e as HandleChangeEvent).detail),
+      );
+
+      const initial = await watchedHandles.watchHandle(actor);
+      expect(initial.verified?.handle).toBe("at://ivan.test");
+
+      const failures = [
+        {
+          resolveTxt: async () => {
+            throw Object.assign(new Error("Server failure"), {
+              code: "ESERVFAIL",
+            });
+          },
+          fetch: async () => new Response(null, { status: 404 }),
+        },
+        {
+          resolveTxt: async () => {
+            throw Object.assign(new Error("Not found"), { code: "ENOTFOUND" });
+          },
+          fetch: async () => new Response(null, { status: 503 }),
+        },
+      ];
+      for (const failure of failures) {
+        resolveTxt = failure.resolveTxt;
+        fetch_ = failure.fetch;
+        // Checked twice, since a handle that stops verifying
+        // is only reported once it fails again
+        await watchedHandles.checkHandle(actor);
+        const failed = await watchedHandles.checkHandle(actor);
+        expect(failed.error).toBeDefined();
+        expect(failed.unreachable).toBe(true);
+        expect(failed.verified?.handle).toBe("at://ivan.test");
+      }
+      expect(events).toHaveLength(0);
+
+      watchedHandles.unwatchHandle(actor);
+    });
   });
 }
@@ -1,60 +1,455 @@
 import type { Graffiti } from "@graffiti-garden/api";
 import { GraffitiErrorNotFound } from "@graffiti-garden/api";
 import { DecentralizedIdentifiers } from "../1-services/2-dids";
+import {
+  getAtprotoHandleMethod,
+  getWebHandleMethod,
+  type AtprotoHandleMethodOptions,
+  type HandleMethod,
+} from "./2-handle-methods";
 
-// Handles used a fixed method
-const HANDLE_DID_PREFIX = "did:web:";
+export interface HandlesOptions {
+  /**
+   * Additional handle methods, which take precedence over the
+   * built-in AT Protocol and `did:web` methods.
+   */
+  methods?: HandleMethod[];
+  /**
+   * How TXT records are looked up to verify AT Protocol handles.
+   */
+  resolveTxt?: AtprotoHandleMethodOptions["resolveTxt"];
+  /**
+   * How files are fetched to verify AT Protocol handles over HTTPS.
+   */
+  fetch?: AtprotoHandleMethodOptions["fetch"];
+  /**
+   * How long a handle and actor that have been verified to
+   * point at each other are remembered, in milliseconds.
+   * Defaults to ten minutes.
+   */
+  cacheTtl?: number;
+  /**
+   * How often watched handles are verified again,
+   * in milliseconds. Defaults to ten minutes.
+   */
+  checkInterval?: number;
+}
+
+export interface VerifiedHandle {
+  handle: string;
+  /**
+   * When the handle was last verified to point back at
+   * the actor, in milliseconds since the epoch.
+   */
+  verifiedAt: number;
+}
+
+export interface HandleState {
+  actor: string;
+  /**
+   * The last handle that was verified for the actor.
+   * It is kept even if a later verification fails,
+   * in which case `error` is also set.
+   */
+  verified?: VerifiedHandle;
+  /**
+   * Why the most recent verification failed, if it did.
+   */
+  error?: unknown;
+  /**
+   * Whether the most recent verification failed because a
+   * lookup failed, for example because the network is down,
+   * rather than because the handle no longer points at the actor.
+   */
+  unreachable?: boolean;
+  /**
+   * Handles the actor had before `verified`, oldest first.
+   */
+  history: VerifiedHandle[];
+}
+
+/**
+ * Dispatched on `handleEvents` as `handlechange` when an actor that
+ * had a verified handle is verified with a different one, or when
+ * its handle stops verifying, which can mean that the handle's
+ * domain has expired or been taken over. Lookups that fail, like
+ * when the network is down, are only recorded in the actor's
+ * {@link HandleState}, since they don't mean the handle has changed.
+ */
+export type HandleChangeEvent = CustomEvent<{
+  actor: string;
+  previous: VerifiedHandle;
+  /**
+   * The newly verified handle, or `undefined` if verification failed.
+   */
+  current?: VerifiedHandle;
+  error?: unknown;
+}>;
+
+interface VerifiedPair {
+  actor: string;
+  handle: string;
+  expiresAt: number;
+}
 
 export class Handles {
+  readonly handleEvents = new EventTarget();
+  protected readonly methods: HandleMethod[];
+  protected readonly cacheTtl: number;
+  protected readonly checkInterval: number;
+  protected readonly states = new Map<string, HandleState>();
+  protected readonly watched = new Set<string>();
+  protected watchInterval: ReturnType<typeof setInterval> | undefined;
+  protected checkingWatched = false;
+  // Each direction only caches what it verified itself, since
+  // an actor's handle is the first of its aliases that verifies,
+  // which isn't necessarily the handle it was looked up by
+  protected readonly byActor = new Map<string, VerifiedPair>();
+  protected readonly byHandle = new Map<string, VerifiedPair>();
+  protected readonly inFlightActors = new Map<string, Promise<string>>();
+  protected readonly inFlightHandles = new Map<string, Promise<string>>();
+
   constructor(
     protected readonly services: { dids: DecentralizedIdentifiers },
-  ) {}
+    options?: HandlesOptions,
+  ) {
+    this.methods = [
+      ...(options?.methods ?? []),
+      getAtprotoHandleMethod({
+        resolveTxt: options?.resolveTxt,
+        fetch: options?.fetch,
+      }),
+      // Last, since it accepts any handle
+      getWebHandleMethod(services.dids),
+    ];
+    this.cacheTtl = options?.cacheTtl ?? DEFAULT_CACHE_TTL;
+    this.checkInterval = options?.checkInterval ?? DEFAULT_CHECK_INTERVAL;
+  }
 
   actorToHandle: Graffiti["actorToHandle"] = async (actor) => {
-    const actorDocument = await this.services.dids.resolve(actor);
+    const cached = this.byActor.get(actor);
+    if (cached && cached.expiresAt > Date.now()) return cached.handle;
+    return await dedupe(this.inFlightActors, actor, () =>
+      this.actorToHandle_(actor),
+    );
+  };
+
+  handleToActor: Graffiti["handleToActor"] = async (handle) => {
+    const cached = this.byHandle.get(handle);
+    if (cached && cached.expiresAt > Date.now()) return cached.actor;
+    return await dedupe(this.inFlightHandles, handle, () =>
+      this.handleToActor_(handle),
+    );
+  };
+
+  /**
+   * Looks up the handles of many actors at once, for example
+   * to label a list of objects. Each actor is only resolved
+   * once, no matter how many times it appears.
+   */
+  async actorsToHandles(
+    actors: Iterable<string>,
+  ): Promise<Map<string, PromiseSettledResult<string>>> {
+    return await settleEach(actors, this.actorToHandle);
+  }
+
+  /**
+   * Looks up the actors of many handles at once.
+   * Each handle is only resolved once, no matter
+   * how many times it appears.
+   */
+  async handlesToActors(
+    handles: Iterable<string>,
+  ): Promise<Map<string, PromiseSettledResult<string>>> {
+    return await settleEach(handles, this.handleToActor);
+  }
+
+  /**
+   * The last handle verified for an actor, along with
+   * when it was verified and any that came before it.
+   */
+  getHandleState(actor: string): HandleState | undefined {
+    const state = this.states.get(actor);
+    return state && copyState(state);
+  }
+
+  /**
+   * Verifies an actor's handle from scratch, skipping any caches,
+   * and returns the updated state. If the handle has changed
+   * or stopped verifying, a `handlechange` event is dispatched.
+   */
+  async checkHandle(actor: string): Promise<HandleState> {
+    try {
+      await this.actorToHandle_(actor, { noCache: true });
+    } catch {
+      // Failures are recorded in the state
+    }
+    return this.getHandleState(actor) ?? { actor, history: [] };
+  }
+
+  /**
+   * Periodically checks an actor's handle with {@link checkHandle}
+   * until {@link unwatchHandle} is called.
+   */
+  async watchHandle(actor: string): Promise<HandleState> {
+    this.watched.add(actor);
+    if (!this.watchInterval) {
+      this.watchInterval = setInterval(async () => {
+        // Skip ticks while the last check is still running
+        if (this.checkingWatched) return;
+        this.checkingWatched = true;
+        try {
+          for (const watched of this.watched) {
+            await this.checkHandle(watched);
+          }
+        } finally {
+          this.checkingWatched = false;
+        }
+      }, this.checkInterval);
+      // Don't keep Node.js processes alive just to check
+      if (typeof this.watchInterval === "object") {
+        this.watchInterval.unref?.();
+      }
+    }
+    return await this.checkHandle(actor);
+  }
+
+  unwatchHandle(actor: string): void {
+    this.watched.delete(actor);
+    if (this.watched.size === 0 && this.watchInterval) {
+      clearInterval(this.watchInterval);
+      this.watchInterval = undefined;
+    }
+  }
+
+  /**
+   * Forgets the cached handles of pairs that involve
+   * the DID, either as the actor or as a handle's alias,
+   * or every cached handle if no DID is given.
+   */
+  invalidate(did?: string): void {
+    for (const cache of [this.byActor, this.byHandle]) {
+      for (const [key, pair] of cache) {
+        if (
+          did === undefined ||
+          pair.actor === did ||
+          this.methods.some((m) => m.handleToAlias(pair.handle) === did)
+        ) {
+          cache.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stops watching every handle.
+   */
+  close(): void {
+    this.watched.clear();
+    clearInterval(this.watchInterval);
+    this.watchInterval = undefined;
+  }
+
+  protected async actorToHandle_(
+    actor: string,
+    options?: { noCache?: boolean },
+  ) {
+    const lookupErrors: unknown[] = [];
+    try {
+      return await this.verifyActorHandle(actor, lookupErrors, options);
+    } catch (error) {
+      this.recordFailure(actor, error, lookupErrors.length > 0);
+      throw error;
+    }
+  }
+
+  /**
+   * Any lookups that fail along the way are added to `lookupErrors`,
+   * since those failures say nothing about whether a handle still
+   * points at the actor.
+   */
+  protected async verifyActorHandle(
+    actor: string,
+    lookupErrors: unknown[],
+    options?: { noCache?: boolean },
+  ) {
+    let actorDocument;
+    try {
+      actorDocument = await this.services.dids.resolve(actor, options);
+    } catch (error) {
+      lookupErrors.push(error);
+      throw error;
+    }
+
+    // Go through every alias, in order, until
+    // one is a handle that points back at the actor
+    let claimedHandle: string | undefined;
+    for (const alias of actorDocument.alsoKnownAs ?? []) {
+      for (const method of this.methods) {
+        const handle = method.aliasToHandle(alias);
+        if (handle === undefined) continue;
+        claimedHandle ??= handle;
 
-    const handleDid = actorDocument.alsoKnownAs?.at(0);
-    if (!handleDid) {
+        let actors: string[];
+        try {
+          actors = await method.resolveHandle(handle, options);
+        } catch (error) {
+          // Try the remaining aliases, but keep
+          // the error in case none of them work
+          lookupErrors.push(error);
+          continue;
+        }
+        if (actors.includes(actor)) {
+          this.rememberHandle(actor, handle);
+          return handle;
+        }
+      }
+    }
+
+    if (claimedHandle === undefined) {
       throw new GraffitiErrorNotFound(
         `Handle for actor DID ${actor} not found`,
       );
     }
-    if (!handleDid.startsWith(HANDLE_DID_PREFIX)) {
-      throw new Error(`Handle DID ${handleDid} is not a valid handle`);
+    if (lookupErrors.length > 0) {
+      throw new Error(
+        `Handle ${claimedHandle} could not be verified for actor ${actor}`,
+        {
+          cause:
+            lookupErrors.length === 1
+              ? lookupErrors[0]
+              : new AggregateError(lookupErrors),
+        },
+      );
     }
+    throw new Error(`Handle ${claimedHandle} does not match actor ${actor}`);
+  }
 
-    const handle = handleDid.slice(HANDLE_DID_PREFIX.length);
+  protected async handleToActor_(handle: string) {
+    const method = this.methods.find(
+      (method) => method.handleToAlias(handle) !== undefined,
+    );
+    const alias = method?.handleToAlias(handle);
+    if (!method || alias === undefined) {
+      throw new GraffitiErrorNotFound(`Unrecognized handle ${handle}`);
+    }
 
-    const handleDocument = await this.services.dids.resolve(handleDid);
-    if (
-      !handleDocument.alsoKnownAs ||
-      !handleDocument.alsoKnownAs.includes(actor)
-    ) {
-      throw new Error(`Handle ${handle} does not match actor ${actor}`);
+    const actors = await method.resolveHandle(handle);
+    if (actors.length === 0) {
+      throw new GraffitiErrorNotFound(`Actor for handle ${handle} not found`);
     }
 
-    return handle;
-  };
+    for (const actor of actors) {
+      let actorDocument;
+      try {
+        actorDocument = await this.services.dids.resolve(actor);
+      } catch {
+        continue;
+      }
+      if (actorDocument.alsoKnownAs?.includes(alias)) {
+        this.byHandle.set(handle, {
+          actor,
+          handle,
+          expiresAt: Date.now() + this.cacheTtl,
+        });
+        return actor;
+      }
+    }
+    throw new Error(`Actor ${actors[0]} does not match handle ${handle}`);
+  }
 
-  handleToActor: Graffiti["handleToActor"] = async (handle) => {
-    const handleDid = `${HANDLE_DID_PREFIX}${handle}`;
-    const handleDocument = await this.services.dids.resolve(handleDid);
+  protected rememberHandle(actor: string, handle: string) {
+    this.byActor.set(actor, {
+      actor,
+      handle,
+      expiresAt: Date.now() + this.cacheTtl,
+    });
 
-    const actor = handleDocument.alsoKnownAs?.at(0);
-    if (!actor) {
-      throw new GraffitiErrorNotFound(
-        `Actor for handle DID ${handleDid} not found`,
-      );
+    const state = this.states.get(actor) ?? { actor, history: [] };
+    const previous = state.verified;
+    const current = { handle, verifiedAt: Date.now() };
+    if (previous && previous.handle !== handle) {
+      state.history = [...state.history, previous].slice(-MAX_HISTORY);
     }
+    state.verified = current;
+    delete state.error;
+    delete state.unreachable;
+    this.states.set(actor, state);
 
-    const actorDocument = await this.services.dids.resolve(actor);
-    if (
-      !actorDocument.alsoKnownAs ||
-      !actorDocument.alsoKnownAs.includes(handleDid)
-    ) {
-      throw new Error(`Actor ${actor} does not match handle ${handle}`);
+    if (previous && previous.handle !== handle) {
+      this.dispatchHandleChange({ actor, previous, current });
     }
+  }
 
-    return actor;
+  protected recordFailure(actor: string, error: unknown, unreachable: boolean) {
+    const state = this.states.get(actor) ?? { actor, history: [] };
+    const alreadyFailing = "error" in state && !state.unreachable;
+    state.error = error;
+    if (unreachable) {
+      state.unreachable = true;
+    } else {
+      delete state.unreachable;
+    }
+    this.states.set(actor, state);
+    // Keep what was verified until the handle can be checked again
+    if (unreachable) return;
+
+    const pair = this.byActor.get(actor);
+    if (pair) {
+      this.byActor.delete(actor);
+      // The handle may no longer point at the actor either
+      if (this.byHandle.get(pair.handle)?.actor === actor) {
+        this.byHandle.delete(pair.handle);
+      }
+    }
+
+    // Only report the failure once, rather than on every check
+    if (state.verified && !alreadyFailing) {
+      this.dispatchHandleChange({ actor, previous: state.verified, error });
+    }
+  }
+
+  protected dispatchHandleChange(detail: HandleChangeEvent["detail"]) {
+    const event: HandleChangeEvent = new CustomEvent("handlechange", {
+      detail,
+    });
+    this.handleEvents.dispatchEvent(event);
+  }
+}
+
+const DEFAULT_CACHE_TTL = 10 * 60 * 1000;
+const DEFAULT_CHECK_INTERVAL = 10 * 60 * 1000;
+const MAX_HISTORY = 20;
+
+function copyState(state: HandleState): HandleState {
+  return {
+    ...state,
+    verified: state.verified && { ...state.verified },
+    history: state.history.map((verified) => ({ ...verified })),
   };
 }
+
+async function dedupe<T>(
+  inFlight: Map<string, Promise<T>>,
+  key: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const existing = inFlight.get(key);
+  if (existing) return existing;
+  const promise = fn();
+  inFlight.set(key, promise);
+  try {
+    return await promise;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+async function settleEach(
+  keys: Iterable<string>,
+  fn: (key: string) => Promise<string>,
+): Promise<Map<string, PromiseSettledResult<string>>> {
+  const unique = [...new Set(keys)];
+  const results = await Promise.allSettled(unique.map((key) => fn(key)));
+  return new Map(unique.map((key, i) => [key, results[i]]));
+}
@@ -0,0 +1,532 @@
+import { describe, expect, test } from "vitest";
+import {
+  GraffitiErrorNotFound,
+  GraffitiErrorTooLarge,
+  type Graffiti,
+  type GraffitiObjectBase,
+  type GraffitiSession,
+} from "@graffiti-garden/api";
+import { randomBytes } from "@noble/hashes/utils.js";
+import {
+  GraffitiDecentralized,
+  type GraffitiDecentralizedOptions,
+} from "./4-graffiti";
+import type { Sessions } from "./1-sessions";
+import {
+  StorageBuckets,
+  type ByteRange,
+} from "../1-services/3-storage-buckets";
+import {
+  CONTENT_ADDRESS_METHOD_SHA256,
+  ContentAddresses,
+} from "../2-primitives/2-content-addresses";
+import {
+  STRING_ENCODER_METHOD_BASE64URL,
+  StringEncoder,
+} from "../2-primitives/1-string-encoding";
+import { MediaEncryption } from "../2-primitives/5-media-encryption";
+import {
+  DID_SERVICE_ID_GRAFFITI_STORAGE_BUCKET,
+  DID_SERVICE_TYPE_GRAFFITI_STORAGE_BUCKET,
+} from "../1-services/2-did-validation";
+
+const actor = "did:example:media";
+const storageBucketEndpoint = "https://bucket.example";
+const session: GraffitiSession = { actor };
+
+/**
+ * A storage bucket that keeps its values in memory
+ * and counts the requests made to it.
+ */
+class MemoryStorageBuckets extends StorageBuckets {
+  readonly values = new Map<string, Uint8Array>();
+  gets = 0;
+  puts = 0;
+  // Called before each put, which fails if it throws
+  onPut: ((key: string) => void) | undefined;
+
+  async put(
+    _storageBucketEndpoint: string,
+    key: string,
+    value: Uint8Array | Blob,
+  ): Promise<void> {
+    this.puts++;
+    this.onPut?.(key);
+    this.values.set(
+      key,
+      value instanceof Blob
+        ? new Uint8Array(await value.arrayBuffer())
+        : value.slice(),
+    );
+  }
+
+  async delete(_storageBucketEndpoint: string, key: string): Promise<void> {
+    if (!this.values.delete(key)) {
+      throw new GraffitiErrorNotFound("Value not found");
+    }
+  }
+
+  async get(
+    _storageBucketEndpoint: string,
+    key: string,
+    maxBytes?: number,
+    range?: ByteRange,
+  ): Promise<Uint8Array> {
+    this.gets++;
+    const value = this.values.get(key);
+    if (!value) throw new GraffitiErrorNotFound("Value not found");
+    const bytes = value.slice(range?.start ?? 0, range?.end);
+    if (maxBytes !== undefined && bytes.length > maxBytes) {
+      throw new Error("Value exceeds maximum byte limit");
+    }
+    return bytes;
+  }
+
+  async getStream(
+    storageBucketEndpoint: string,
+    key: string,
+    maxBytes?: number,
+    range?: ByteRange,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const bytes = await this.get(storageBucketEndpoint, key, maxBytes, range);
+    return new Response(bytes as Uint8Array<ArrayBuffer>).body!;
+  }
+}
+
+/**
+ * Keeps objects in memory and is always logged in, so
+ * media can be tested without any inboxes or logins.
+ */
+class MediaTestGraffiti extends GraffitiDecentralized {
+  readonly bucket = new MemoryStorageBuckets();
+  readonly objects = new Map<string, GraffitiObjectBase>();
+  protected readonly storageBuckets: StorageBuckets = this.bucket;
+  declare protected readonly sessions: Sessions;
+
+  constructor(options?: GraffitiDecentralizedOptions) {
+    super({
+      ...options,
+      pinnedDids: {
+        [actor]: {
+          id: actor,
+          service: [
+            {
+              id: DID_SERVICE_ID_GRAFFITI_STORAGE_BUCKET,
+              type: DID_SERVICE_TYPE_GRAFFITI_STORAGE_BUCKET,
+              serviceEndpoint: storageBucketEndpoint,
+            },
+          ],
+        },
+      },
+    });
+    this.sessions = fakeSessions(this.sessions);
+  }
+
+  post = (async (partialObject, session) => {
+    const object = {
+      ...partialObject,
+      url: `graffiti:test:${Math.random().toString(36).slice(2)}`,
+      actor: session.actor,
+    };
+    this.objects.set(object.url, object);
+    return object;
+  }) as Graffiti["post"];
+
+  get = (async (url) => {
+    const object = this.objects.get(typeof url === "string" ? url : url.url);
+    if (!object) throw new GraffitiErrorNotFound("Object not found");
+    return object;
+  }) as Graffiti["get"];
+
+  delete = (async (url) => {
+    const object = await this.get(url, {});
+    this.objects.delete(object.url);
+    return object;
+  }) as Graffiti["delete"];
+
+  async mediaValue(mediaUrl: string) {
+    return (await this.get(mediaUrl, {})).value as {
+      key: string;
+      hash?: string;
+      chunks?: { hash: string; size: number }[];
+      encryption?: { method: string; key: string };
+    };
+  }
+}
+
+function fakeSessions(sessions: Sessions): Sessions {
+  return {
+    resolveSession: async () => ({
+      actor,
+      storageBucket: { serviceEndpoint: storageBucketEndpoint },
+    }),
+    withAuthorization: async <T>(
+      _session: GraffitiSession,
+      _serviceEndpoint: string,
+      request: (token: string) => Promise<T>,
+    ) => await request("token"),
+    close: () => sessions.close(),
+  } as unknown as Sessions;
+}
+
+export function mediaTests() {
+  describe("Media", () => {
+    test("ranges of chunked media", async () => {
+      const graffiti = new MediaTestGraffiti({ mediaChunkSize: 10 });
+      const bytes = randomBytes(35);
+      const url = await graffiti.postMedia(
+        { data: new Blob([bytes], { type: "audio/ogg" }) },
+        session,
+      );
+
+      const reader = await graffiti.openMedia(url);
+      expect(reader.type).toBe("audio/ogg");
+      expect(reader.size).toBe(35);
+      expect(reader.actor).toBe(actor);
+
+      // Only the chunk that overlaps the range is downloaded
+      graffiti.bucket.gets = 0;
+      await expect(reader.read({ start: 12, end: 18 })).resolves.toEqual(
+        bytes.slice(12, 18),
+      );
+      expect(graffiti.bucket.gets).toBe(1);
+      await expect(reader.read({ start: 5, end: 25 })).resolves.toEqual(
+        bytes.slice(5, 25),
+      );
+      expect(graffiti.bucket.gets).toBe(4);
+
+      const whole = await new Response(await reader.stream()).arrayBuffer();
+      expect(new Uint8Array(whole)).toEqual(bytes);
+      const pieces: Uint8Array<ArrayBuffer>[] = [];
+      for await (const piece of reader.chunks(8)) {
+        pieces.push(piece as Uint8Array<ArrayBuffer>);
+      }
+      expect(pieces.map((piece) => piece.length)).toEqual([8, 8, 8, 8, 3]);
+      expect(new Uint8Array(await new Blob(pieces).arrayBuffer())).toEqual(
+        bytes,
+      );
+
+      // Ranges past the end are cut short
+      const end = await graffiti.getMediaRange(url, { start: 30, end: 100 });
+      expect(end.size).toBe(35);
+      expect(end.range).toEqual({ start: 30, end: 35 });
+      expect(end.data.type).toBe("audio/ogg");
+      expect(new Uint8Array(await end.data.arrayBuffer())).toEqual(
+        bytes.slice(30),
+      );
+
+      await expect(reader.read({ start: 35 })).rejects.toThrow(RangeError);
+      await expect(
+        graffiti.getMediaRange(url, { start: 0, end: 20 }, { maxBytes: 10 }),
+      ).rejects.toThrow(GraffitiErrorTooLarge);
+      await expect(
+        graffiti.getMediaRange(url, { start: 0, end: 10 }, { maxBytes: 10 }),
+      ).resolves.toBeDefined();
+      graffiti.close();
+    });
+
+    test("chunked media is reassembled and verified", async () => {
+      const graffiti = new MediaTestGraffiti({ mediaChunkSize: 10 });
+      const repeated = randomBytes(10);
+      const bytes = new Uint8Array([
+        ...repeated,
+        ...repeated,
+        ...randomBytes(5),
+      ]);
+      const url = await graffiti.postMedia(
+        { data: new Blob([bytes], { type: "video/mp4" }) },
+        session,
+      );
+
+      // Chunks with the same content are only stored once
+      const value = await graffiti.mediaValue(url);
+      expect(value.chunks?.map((chunk) => chunk.size)).toEqual([10, 10, 5]);
+      expect(value.chunks?.[0].hash).toBe(value.chunks?.[1].hash);
+      expect(graffiti.bucket.puts).toBe(2);
+      expect([...graffiti.bucket.values.keys()]).toEqual(
+        value.chunks?.slice(1).map((chunk) => `${value.key}.${chunk.hash}`),
+      );
+
+      const media = await graffiti.getMedia(url, {});
+      expect(media.data.type).toBe("video/mp4");
+      expect(new Uint8Array(await media.data.arrayBuffer())).toEqual(bytes);
+
+      // The bucket swaps out a chunk
+      const chunkKey = `${value.key}.${value.chunks?.[2].hash}`;
+      const tampered = graffiti.bucket.values.get(chunkKey)!;
+      tampered[0] ^= 1;
+      await expect(graffiti.getMedia(url, {})).rejects.toThrow(
+        "does not match",
+      );
+      const reader = await graffiti.openMedia(url);
+      await expect(reader.read({ start: 0, end: 20 })).resolves.toEqual(
+        bytes.slice(0, 20),
+      );
+      await expect(reader.read({ start: 20 })).rejects.toThrow(
+        "does not match",
+      );
+
+      // Deleting succeeds even if some chunks are already gone
+      graffiti.bucket.values.delete(chunkKey);
+      await graffiti.deleteMedia(url, session);
+      expect(graffiti.bucket.values.size).toBe(0);
+      graffiti.close();
+    });
+
+    test("chunked uploads resume where they left off", async () => {
+      const graffiti = new MediaTestGraffiti({ mediaChunkSize: 10 });
+      const bytes = randomBytes(35);
+      const data = new Blob([bytes]);
+
+      // The third chunk never makes it
+      let failing = true;
+      graffiti.bucket.onPut = () => {
+        if (failing && graffiti.bucket.puts > 2) {
+          throw new Error("Network error");
+        }
+      };
+      await expect(graffiti.postMedia({ data }, session)).rejects.toThrow(
+        "Network error",
+      );
+      expect(graffiti.bucket.puts).toBe(5);
+      expect(graffiti.bucket.values.size).toBe(2);
+
+      // Only the remaining chunks are uploaded
+      failing = false;
+      const url = await graffiti.postMedia({ data }, session);
+      expect(graffiti.bucket.puts).toBe(7);
+      expect(graffiti.bucket.values.size).toBe(4);
+      const value = await graffiti.mediaValue(url);
+      for (const storageKey of graffiti.bucket.values.keys()) {
+        expect(storageKey.startsWith(`${value.key}.`)).toBe(true);
+      }
+      const media = await graffiti.getMedia(url, {});
+      expect(new Uint8Array(await media.data.arrayBuffer())).toEqual(bytes);
+
+      // Failures that pass are retried
+      let failures = 1;
+      graffiti.bucket.onPut = () => {
+        if (failures-- > 0) throw new Error("Network error");
+      };
+      await expect(
+        graffiti.postMedia({ data: new Blob([randomBytes(15)]) }, session),
+      ).resolves.toBeDefined();
+      graffiti.close();
+    });
+
+    test("media with too many chunks is rejected", async () => {
+      const graffiti = new MediaTestGraffiti({ mediaChunkSize: 1 });
+      await expect(
+        graffiti.postMedia({ data: new Blob([randomBytes(257)]) }, session),
+      ).rejects.toThrow(GraffitiErrorTooLarge);
+      expect(graffiti.bucket.puts).toBe(0);
+      graffiti.close();
+    });
+
+    test("media is verified against its content address", async () => {
+      const graffiti = new MediaTestGraffiti();
+      const bytes = randomBytes(100);
+      const url = await graffiti.postMedia(
+        { data: new Blob([bytes], { type: "image/png" }) },
+        session,
+      );
+
+      const value = await graffiti.mediaValue(url);
+      expect(value.hash).toBe(
+        await new StringEncoder().encode(
+          STRING_ENCODER_METHOD_BASE64URL,
+          await new ContentAddresses().register(
+            CONTENT_ADDRESS_METHOD_SHA256,
+            bytes,
+          ),
+        ),
+      );
+      expect(graffiti.bucket.values.get(value.key)).toEqual(bytes);
+      const media = await graffiti.getMedia(url, {});
+      expect(new Uint8Array(await media.data.arrayBuffer())).toEqual(bytes);
+
+      // The bucket swaps out the data
+      graffiti.bucket.values.set(value.key, randomBytes(100));
+      await expect(graffiti.getMedia(url, {})).rejects.toThrow(
+        "does not match",
+      );
+      graffiti.close();
+    });
+
+    test("media with the same content doesn't share data by default", async () => {
+      const graffiti = new MediaTestGraffiti();
+      const bytes = randomBytes(100);
+      const first = await graffiti.postMedia(
+        { data: new Blob([bytes]) },
+        session,
+      );
+      const second = await graffiti.postMedia(
+        { data: new Blob([bytes]) },
+        session,
+      );
+
+      const firstValue = await graffiti.mediaValue(first);
+      const secondValue = await graffiti.mediaValue(second);
+      expect(firstValue.hash).toBe(secondValue.hash);
+      expect(firstValue.key).not.toBe(secondValue.key);
+
+      // Even a fresh instance, which knows nothing
+      // of the first upload, only deletes its own data
+      const fresh = new MediaTestGraffiti();
+      for (const [url, object] of graffiti.objects) {
+        fresh.objects.set(url, object);
+      }
+      for (const [key, value] of graffiti.bucket.values) {
+        fresh.bucket.values.set(key, value);
+      }
+      await fresh.deleteMedia(first, session);
+      expect([...fresh.bucket.values.keys()]).toEqual([secondValue.key]);
+      const media = await fresh.getMedia(second, {});
+      expect(new Uint8Array(await media.data.arrayBuffer())).toEqual(bytes);
+      graffiti.close();
+      fresh.close();
+    });
+
+    test("media with the same content can share data", async () => {
+      const graffiti = new MediaTestGraffiti({ reuseMediaKeys: true });
+      const bytes = randomBytes(100);
+      const urls: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        urls.push(
+          await graffiti.postMedia({ data: new Blob([bytes]) }, session),
+        );
+      }
+      const values = await Promise.all(
+        urls.map((url) => graffiti.mediaValue(url)),
+      );
+      expect(new Set(values.map((value) => value.key)).size).toBe(1);
+      const key = values[0].key;
+      expect(graffiti.bucket.values.get(key)).toEqual(bytes);
+      expect(
+        JSON.parse(
+          new TextDecoder().decode(graffiti.bucket.values.get(`${key}.refs`)),
+        ),
+      ).toEqual(urls);
+      // The data once, and the list after each post
+      expect(graffiti.bucket.puts).toBe(4);
+
+      // Private media is never shared
+      const encrypted = await graffiti.postMedia(
+        { data: new Blob([bytes]), allowed: [] },
+        session,
+      );
+      expect((await graffiti.mediaValue(encrypted)).key).not.toBe(key);
+
+      // A fresh instance, even without the option,
+      // keeps the data until the last media is deleted
+      const fresh = new MediaTestGraffiti();
+      for (const [url, object] of graffiti.objects) {
+        fresh.objects.set(url, object);
+      }
+      for (const [storageKey, value] of graffiti.bucket.values) {
+        fresh.bucket.values.set(storageKey, value);
+      }
+      await fresh.deleteMedia(urls[0], session);
+      await fresh.deleteMedia(urls[1], session);
+      const media = await fresh.getMedia(urls[2], {});
+      expect(new Uint8Array(await media.data.arrayBuffer())).toEqual(bytes);
+
+      await fresh.deleteMedia(urls[2], session);
+      expect(fresh.bucket.values.has(key)).toBe(false);
+      expect(fresh.bucket.values.has(`${key}.refs`)).toBe(false);
+      graffiti.close();
+      fresh.close();
+    });
+
+    test("private media data is encrypted under the key in its object", async () => {
+      const graffiti = new MediaTestGraffiti({ mediaChunkSize: 10 });
+      for (const size of [8, 35]) {
+        const bytes = randomBytes(size);
+        const url = await graffiti.postMedia(
+          { data: new Blob([bytes], { type: "image/png" }), allowed: [] },
+          session,
+        );
+        const value = await graffiti.mediaValue(url);
+        expect(value.encryption?.method).toBe("aes-256-gcm");
+
+        // The data is stored as ciphertext, with a tag on each chunk
+        const stored = value.chunks
+          ? value.chunks.map((chunk) =>
+              graffiti.bucket.values.get(`${value.key}.${chunk.hash}`),
+            )
+          : [graffiti.bucket.values.get(value.key)];
+        const plaintext = value.chunks
+          ? value.chunks.map((_, i) => bytes.slice(i * 10, (i + 1) * 10))
+          : [bytes];
+        expect(stored).toHaveLength(plaintext.length);
+        for (const [i, ciphertext] of stored.entries()) {
+          expect(ciphertext?.length).toBe(plaintext[i].length + 16);
+          expect(ciphertext?.subarray(0, plaintext[i].length)).not.toEqual(
+            plaintext[i],
+          );
+        }
+
+        // The content key is in the media object, so the
+        // data is no secret from whoever holds both, like
+        // the operator of the bucket they are stored in
+        const contentKey = await new StringEncoder().decode(
+          value.encryption!.key,
+        );
+        await expect(
+          new MediaEncryption().decrypt(
+            value.encryption!.method,
+            contentKey,
+            0,
+            stored[0]!,
+          ),
+        ).resolves.toEqual(plaintext[0]);
+
+        const media = await graffiti.getMedia(url, {});
+        expect(media.allowed).toEqual([]);
+        expect(new Uint8Array(await media.data.arrayBuffer())).toEqual(bytes);
+
+        // Ranges are decrypted, even across chunks
+        const reader = await graffiti.openMedia(url);
+        await expect(reader.read({ start: 3, end: 7 })).resolves.toEqual(
+          bytes.slice(3, 7),
+        );
+        await expect(reader.read({ start: 5 })).resolves.toEqual(
+          bytes.slice(5),
+        );
+        const range = await graffiti.getMediaRange(url, { start: 2, end: 6 });
+        expect(new Uint8Array(await range.data.arrayBuffer())).toEqual(
+          bytes.slice(2, 6),
+        );
+      }
+
+      // Public media is left as is
+      const bytes = randomBytes(8);
+      const url = await graffiti.postMedia(
+        { data: new Blob([bytes]) },
+        session,
+      );
+      const value = await graffiti.mediaValue(url);
+      expect(value.encryption).toBeUndefined();
+      expect(graffiti.bucket.values.get(value.key)).toEqual(bytes);
+      graffiti.close();
+    });
+
+    test("ranges of media too small to chunk", async () => {
+      const graffiti = new MediaTestGraffiti({ mediaChunkSize: 10 });
+      const bytes = randomBytes(8);
+      const url = await graffiti.postMedia(
+        { data: new Blob([bytes], { type: "image/png" }) },
+        session,
+      );
+
+      const range = await graffiti.getMediaRange(url, { start: 2, end: 5 });
+      expect(range.range).toEqual({ start: 2, end: 5 });
+      expect(new Uint8Array(await range.data.arrayBuffer())).toEqual(
+        bytes.slice(2, 5),
+      );
+      const reader = await graffiti.openMedia(url);
+      await expect(reader.read({ start: 6 })).resolves.toEqual(bytes.slice(6));
+      graffiti.close();
+    });
+  });
+}
@@ -17,6 +17,8 @@ import {
   GraffitiErrorCursorExpired,
   GraffitiErrorInvalidSchema,
   type GraffitiObjectStream,
+  type GraffitiMedia,
+  type GraffitiMediaAccept,
 } from "@graffiti-garden/api";
 import { randomBytes } from "@noble/hashes/utils.js";
 import {
@@ -24,9 +26,19 @@ import {
   decode as dagCborDecode,
 } from "@ipld/dag-cbor";
 
-import { DecentralizedIdentifiers } from "../1-services/2-dids";
-import { Authorization } from "../1-services/1-authorization";
-import { StorageBuckets } from "../1-services/3-storage-buckets";
+import {
+  DecentralizedIdentifiers,
+  type DecentralizedIdentifiersOptions,
+} from "../1-services/2-dids";
+import {
+  Authorization,
+  type AuthorizationOptions,
+} from "../1-services/1-authorization";
+import {
+  StorageBuckets,
+  type ByteRange,
+} from "../1-services/3-storage-buckets";
+import { GraffitiErrorUnauthorized } from "../1-services/utilities";
 import {
   Inboxes,
   LABELED_MESSAGE_LABEL_KEY,
@@ -34,6 +46,7 @@ import {
   MESSAGE_METADATA_KEY,
   MESSAGE_OBJECT_KEY,
   MESSAGE_TAGS_KEY,
+  type InboxToken,
   type LabeledMessage,
   type MessageStream,
 } from "../1-services/4-inboxes";
@@ -42,14 +55,21 @@ import {
   StringEncoder,
   STRING_ENCODER_METHOD_BASE64URL,
 } from "../2-primitives/1-string-encoding";
-import { ContentAddresses } from "../2-primitives/2-content-addresses";
+import {
+  CONTENT_ADDRESS_METHOD_SHA256,
+  ContentAddresses,
+} from "../2-primitives/2-content-addresses";
 import {
   CHANNEL_ATTESTATION_METHOD_SHA256_ED25519,
   ChannelAttestations,
 } from "../2-primitives/3-channel-attestations";
 import { AllowedAttestations } from "../2-primitives/4-allowed-attestations";
+import {
+  MEDIA_ENCRYPTION_METHOD_AES256_GCM,
+  MediaEncryption,
+} from "../2-primitives/5-media-encryption";
 
-import { Handles } from "./2-handles";
+import { Handles, type HandlesOptions } from "./2-handles";
 import {
   Sessions,
   DID_SERVICE_ID_GRAFFITI_PERSONAL_INBOX,
@@ -57,6 +77,7 @@ import {
   DID_SERVICE_ID_GRAFFITI_STORAGE_BUCKET,
   DID_SERVICE_TYPE_GRAFFITI_STORAGE_BUCKET,
 } from "./1-sessions";
+import type { SessionStore } from "./1-session-stores";
 import {
   decodeObjectUrl,
   MAX_OBJECT_SIZE_BYTES,
@@ -127,16 +148,92 @@ const MESSAGE_LABEL_VALID = 1;
 const MESSAGE_LABEL_TRASH = 2;
 const MESSAGE_LABEL_INVALID = 3;
 
+export interface GraffitiMediaRange extends GraffitiMedia {
+  /**
+   * The size of the whole media, in bytes.
+   */
+  size: number;
+  /**
+   * The part of the media that `data` holds, which
+   * ends early if the requested range passes the end.
+   */
+  range: Required<ByteRange>;
+}
+
+/**
+ * Reads parts of a media object on demand, for
+ * example to feed a `MediaSource` while seeking.
+ */
+export interface GraffitiMediaReader extends Omit<GraffitiMedia, "data"> {
+  type: string;
+  size: number;
+  read(range: ByteRange): Promise<Uint8Array>;
+  stream(range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+  /**
+   * Reads the media from start to finish, one chunk at a time.
+   */
+  chunks(chunkSize?: number): AsyncGenerator<Uint8Array>;
+}
+
 export interface GraffitiDecentralizedOptions {
   identityCreatorEndpoint?: string;
   defaultInboxEndpoints?: string[];
+  oauthClientId?: AuthorizationOptions["clientId"];
+  oauthClientMetadata?: AuthorizationOptions["clientMetadata"];
+  authorizationFlow?: AuthorizationOptions["flow"];
+  authorizationMethods?: AuthorizationOptions["methods"];
+  sessionStore?: SessionStore;
+  serviceCheckInterval?: number;
+  didMethods?: DecentralizedIdentifiersOptions["methods"];
+  didCache?: DecentralizedIdentifiersOptions["cache"];
+  didCacheTtl?: DecentralizedIdentifiersOptions["cacheTtl"];
+  pinnedDids?: DecentralizedIdentifiersOptions["pinned"];
+  pinnedDidDirectory?: DecentralizedIdentifiersOptions["pinnedDirectory"];
+  allowedServiceHosts?: DecentralizedIdentifiersOptions["allowedServiceHosts"];
+  deniedServiceHosts?: DecentralizedIdentifiersOptions["deniedServiceHosts"];
+  handleCacheTtl?: HandlesOptions["cacheTtl"];
+  handleMethods?: HandlesOptions["methods"];
+  resolveHandleTxt?: HandlesOptions["resolveTxt"];
+  handleFetch?: HandlesOptions["fetch"];
+  handleCheckInterval?: HandlesOptions["checkInterval"];
+  /**
+   * Media larger than this many bytes is uploaded in chunks,
+   * each stored under its own key, so that no single request is
+   * too large. Defaults to 8 MiB. Media can have at most 256
+   * chunks, so larger media is rejected as too large.
+   *
+   * If a chunked upload fails, posting the same `Blob` again
+   * resumes it from the chunks that were already uploaded.
+   * Which chunks those are is only kept in memory, so after
+   * the page or process restarts the upload starts over.
+   */
+  mediaChunkSize?: number;
+  /**
+   * When public media is posted with the same content as media
+   * that was already posted with this option, point at the
+   * existing data rather than uploading it again. Only media too
+   * small to be chunked is shared. The media objects sharing the
+   * data are listed next to it in the storage bucket, so it is
+   * only deleted along with the last of them, no matter which
+   * page or process deletes it. Posting and deleting the same
+   * content in two places at the same moment isn't coordinated,
+   * and may leave a media object without its data.
+   */
+  reuseMediaKeys?: boolean;
 }
 
 const CONCURRENCY = 16;
+const DEFAULT_MEDIA_READ_SIZE = 1024 * 1024;
+const DEFAULT_MEDIA_CHUNK_SIZE = 8 * 1024 * 1024;
+// Keeps the manifest of chunks well within the object size limit
+const MAX_MEDIA_CHUNKS = 256;
+const MEDIA_CHUNK_ATTEMPTS = 3;
+// Doubled after each failed attempt
+const MEDIA_CHUNK_RETRY_DELAY = 500;
 
 export class GraffitiDecentralized implements Graffiti {
-  protected readonly dids = new DecentralizedIdentifiers();
-  protected readonly authorization = new Authorization();
+  protected readonly dids: DecentralizedIdentifiers;
+  protected readonly authorization: Authorization;
   protected readonly storageBuckets = new StorageBuckets();
   protected readonly inboxes = new Inboxes();
 
@@ -144,14 +241,10 @@ export class GraffitiDecentralized implements Graffiti {
   protected readonly contentAddresses = new ContentAddresses();
   protected readonly channelAttestations = new ChannelAttestations();
   protected readonly allowedAttestations = new AllowedAttestations();
+  protected readonly mediaEncryption = new MediaEncryption();
 
-  protected readonly sessions = new Sessions({
-    dids: this.dids,
-    authorization: this.authorization,
-    storageBuckets: this.storageBuckets,
-    inboxes: this.inboxes,
-  });
-  protected readonly handles = new Handles({ dids: this.dids });
+  protected readonly sessions: Sessions;
+  protected readonly handles: Handles;
   protected readonly objectEncoding = new ObjectEncoding({
     stringEncoder: this.stringEncoder,
     contentAddresses: this.contentAddresses,
@@ -178,7 +271,63 @@ export class GraffitiDecentralized implements Graffiti {
 
   protected readonly defaultInboxEndpoints: string[];
   protected readonly identityCreatorEndpoint: string;
+  protected readonly mediaChunkSize: number;
+  // Chunks already uploaded for media whose upload did not finish,
+  // so posting the same blob again picks up where it left off.
+  // It is weakly held so that abandoned uploads are forgotten.
+  protected readonly mediaUploads = new WeakMap<
+    Blob,
+    {
+      actor: string;
+      key: string;
+      uploaded: Set<string>;
+      contentKey?: Uint8Array;
+    }
+  >();
+  protected readonly reuseMediaKeys: boolean;
   constructor(options?: GraffitiDecentralizedOptions) {
+    this.mediaChunkSize = options?.mediaChunkSize ?? DEFAULT_MEDIA_CHUNK_SIZE;
+    this.reuseMediaKeys = options?.reuseMediaKeys ?? false;
+    this.dids = new DecentralizedIdentifiers({
+      methods: options?.didMethods,
+      cache: options?.didCache,
+      cacheTtl: options?.didCacheTtl,
+      pinned: options?.pinnedDids,
+      pinnedDirectory: options?.pinnedDidDirectory,
+      allowedServiceHosts: options?.allowedServiceHosts,
+      deniedServiceHosts: options?.deniedServiceHosts,
+    });
+    this.handles = new Handles(
+      { dids: this.dids },
+      {
+        cacheTtl: options?.handleCacheTtl,
+        methods: options?.handleMethods,
+        resolveTxt: options?.resolveHandleTxt,
+        fetch: options?.handleFetch,
+        checkInterval: options?.handleCheckInterval,
+      },
+    );
+    this.handleEvents = this.handles.handleEvents;
+    this.authorization = new Authorization({
+      clientId: options?.oauthClientId,
+      clientMetadata: options?.oauthClientMetadata,
+      flow: options?.authorizationFlow,
+      methods: options?.authorizationMethods,
+    });
+    this.sessions = new Sessions(
+      {
+        dids: this.dids,
+        authorization: this.authorization,
+        storageBuckets: this.storageBuckets,
+        inboxes: this.inboxes,
+      },
+      {
+        store: options?.sessionStore,
+        serviceCheckInterval: options?.serviceCheckInterval,
+      },
+    );
+    this.sessionEvents = this.sessions.sessionEvents;
+
     this.defaultInboxEndpoints = options?.defaultInboxEndpoints ?? [
       "https://graffiti.actor/i/shared",
     ];
@@ -207,12 +356,34 @@ export class GraffitiDecentralized implements Graffiti {
     });
   }
 
-  readonly actorToHandle: Graffiti["actorToHandle"] =
-    this.handles.actorToHandle.bind(this.handles);
-  readonly handleToActor: Graffiti["handleToActor"] =
-    this.handles.handleToActor.bind(this.handles);
-  readonly sessionEvents: Graffiti["sessionEvents"] =
-    this.sessions.sessionEvents;
+  readonly actorToHandle: Graffiti["actorToHandle"] = (...args) =>
+    this.handles.actorToHandle(...args);
+  readonly handleToActor: Graffiti["handleToActor"] = (...args) =>
+    this.handles.handleToActor(...args);
+  readonly actorsToHandles: Handles["actorsToHandles"] = (...args) =>
+    this.handles.actorsToHandles(...args);
+  readonly handlesToActors: Handles["handlesToActors"] = (...args) =>
+    this.handles.handlesToActors(...args);
+  readonly getHandleState: Handles["getHandleState"] = (...args) =>
+    this.handles.getHandleState(...args);
+  readonly checkHandle: Handles["checkHandle"] = (...args) =>
+    this.handles.checkHandle(...args);
+  readonly watchHandle: Handles["watchHandle"] = (...args) =>
+    this.handles.watchHandle(...args);
+  readonly unwatchHandle: Handles["unwatchHandle"] = (...args) =>
+    this.handles.unwatchHandle(...args);
+  readonly sessionEvents: Graffiti["sessionEvents"];
+  readonly handleEvents: Handles["handleEvents"];
+
+  /**
+   * Stops all background checks of sessions and handles
+   * and stops syncing sessions with other tabs, so that
+   * the instance can be discarded.
+   */
+  close(): void {
+    this.sessions.close();
+    this.handles.close();
+  }
 
   login: Graffiti["login"] = async (actor?: string) => {
     try {
@@ -249,6 +420,17 @@ export class GraffitiDecentralized implements Graffiti {
           ?.querySelector("#graffiti-login-handle-form")
           ?.addEventListener("submit", async (e) => {
             e.preventDefault();
+
+            // The popup has to be opened during the submit
+            // itself, before anything asynchronous happens
+            let popup: Window | undefined;
+            try {
+              popup = this.authorization.openPopup();
+            } catch (e) {
+              alert("Please allow popups to log in.");
+              return;
+            }
+
             input?.setAttribute("disabled", "true");
             const submitButton = template?.querySelector(
               "#graffiti-login-handle-submit",
@@ -257,6 +439,7 @@ export class GraffitiDecentralized implements Graffiti {
             submitButton && (submitButton.innerHTML = "Logging in...");
 
             if (!input?.value) {
+              if (popup) this.authorization.releasePopup();
               alert("No handle provided");
               this.login_("");
               return;
@@ -272,13 +455,14 @@ export class GraffitiDecentralized implements Graffiti {
             try {
               actor = await this.handleToActor(handle);
             } catch (e) {
+              if (popup) this.authorization.releasePopup();
               alert("Could not find an identity associated with that handle.");
               this.login_(handle);
               return;
             }
 
             try {
-              await this.sessions.login(actor);
+              await this.sessions.login(actor, popup);
             } catch (e) {
               alert("Error logging in.");
               console.error(e);
@@ -353,6 +537,53 @@ export class GraffitiDecentralized implements Graffiti {
     }
   }
 
+  loginWithTokens: Sessions["loginWithTokens"] = async (...args) => {
+    await this.sessions.loginWithTokens(...args);
+  };
+
+  exportSession: Sessions["exportSession"] = (...args) =>
+    this.sessions.exportSession(...args);
+
+  importSession: Sessions["importSession"] = async (...args) => {
+    await this.sessions.importSession(...args);
+  };
+
+  getSessionStates: Sessions["getSessionStates"] = (...args) =>
+    this.sessions.getSessionStates(...args);
+
+  getSessionState: Sessions["getSessionState"] = (...args) =>
+    this.sessions.getSessionState(...args);
+
+  verifySession: Sessions["verifySession"] = (...args) =>
+    this.sessions.verifySession(...args);
+
+  // Popups are opened by default before anything asynchronous
+  // happens, so they still count as part of the user's click
+  reauthorize: Sessions["reauthorize"] = async (
+    actor,
+    endpoint,
+    popup = this.authorization.openPopup(),
+  ) => {
+    await this.sessions.reauthorize(actor, endpoint, popup);
+  };
+
+  checkServices: Sessions["checkServices"] = (...args) =>
+    this.sessions.checkServices(...args);
+
+  updateServices: Sessions["updateServices"] = async (
+    actor,
+    popup = this.authorization.openPopup(),
+  ) => {
+    await this.sessions.updateServices(actor, popup);
+  };
+
+  invalidateDid: DecentralizedIdentifiers["invalidate"] = async (did) => {
+    // Handles are verified against DID documents,
+    // so they have to be verified again too
+    this.handles.invalidate(did);
+    await this.dids.invalidate(did);
+  };
+
   logout: Graffiti["logout"] = async (session) => {
     await this.sessions.logout(session.actor);
   };
@@ -360,7 +591,7 @@ export class GraffitiDecentralized implements Graffiti {
   // @ts-ignore
   post: Graffiti["post"] = async (...args) => {
     const [partialObject, session] = args;
-    const resolvedSession = this.sessions.resolveSession(session);
+    const resolvedSession = await this.sessions.resolveSession(session);
 
     // Encode the object
     const { object, tags, objectBytes, allowedTickets } =
@@ -379,11 +610,17 @@ export class GraffitiDecentralized implements Graffiti {
     );
 
     // Store the object at the random key
-    await this.storageBuckets.put(
-      resolvedSession.storageBucket.serviceEndpoint,
-      storageBucketKey,
-      objectBytes,
-      resolvedSession.storageBucket.token,
+    const storageBucketEndpoint = resolvedSession.storageBucket.serviceEndpoint;
+    await this.sessions.withAuthorization(
+      session,
+      storageBucketEndpoint,
+      (token) =>
+        this.storageBuckets.put(
+          storageBucketEndpoint,
+          storageBucketKey,
+          objectBytes,
+          token,
+        ),
     );
 
     // Announce the object, its key,
@@ -401,17 +638,20 @@ export class GraffitiDecentralized implements Graffiti {
 
   get: Graffiti["get"] = async (...args) => {
     const [url, schema, session] = args;
-    let services: { token?: string; serviceEndpoint: string }[];
+    let services: { token?: InboxToken; serviceEndpoint: string }[];
     const validator = await compileGraffitiObjectSchema(schema);
 
     if (session) {
       // If logged in, first search one's
       // personal inbox, then any shared inboxes
-      const resolvedSession = this.sessions.resolveSession(session);
+      const resolvedSession = await this.sessions.resolveSession(session);
       services = [
         resolvedSession.personalInbox,
         ...resolvedSession.sharedInboxes,
-      ];
+      ].map(({ serviceEndpoint }) => ({
+        serviceEndpoint,
+        token: this.inboxToken(session, serviceEndpoint),
+      }));
     } else {
       // Otherwise, search the default inboxes
       services = this.defaultInboxEndpoints.map((s) => ({
@@ -460,7 +700,7 @@ export class GraffitiDecentralized implements Graffiti {
   };
 
   delete: Graffiti["delete"] = async (url, session) => {
-    const resolvedSession = this.sessions.resolveSession(session);
+    const resolvedSession = await this.sessions.resolveSession(session);
 
     const objectUrl = unpackObjectUrl(url);
 
@@ -470,13 +710,14 @@ export class GraffitiDecentralized implements Graffiti {
     }
 
     // Look in one's personal inbox for the object
+    const personalInboxEndpoint = resolvedSession.personalInbox.serviceEndpoint;
     const iterator = this.querySingleEndpoint<{}>(
-      resolvedSession.personalInbox.serviceEndpoint,
+      personalInboxEndpoint,
       {
         tags: [new TextEncoder().encode(objectUrl)],
         objectSchema: {},
       },
-      resolvedSession.personalInbox.token,
+      this.inboxToken(session, personalInboxEndpoint),
     );
     let existing: SingleEndpointQueryResult<{}> | undefined;
     for await (const result of iterator) {
@@ -500,10 +741,16 @@ export class GraffitiDecentralized implements Graffiti {
     } = existing;
 
     // Delete the object from the actor's own storage bucket
-    await this.storageBuckets.delete(
-      resolvedSession.storageBucket.serviceEndpoint,
-      storageBucketKey,
-      resolvedSession.storageBucket.token,
+    const storageBucketEndpoint = resolvedSession.storageBucket.serviceEndpoint;
+    await this.sessions.withAuthorization(
+      session,
+      storageBucketEndpoint,
+      (token) =>
+        this.storageBuckets.delete(
+          storageBucketEndpoint,
+          storageBucketKey,
+          token,
+        ),
     );
 
     // Announce the deletion to all inboxes
@@ -531,60 +778,502 @@ export class GraffitiDecentralized implements Graffiti {
 
     const type = media.data.type;
 
-    const resolvedSession = this.sessions.resolveSession(session);
+    const resolvedSession = await this.sessions.resolveSession(session);
 
-    // Generate a random storage key
-    const keyBytes = randomBytes();
-    const key = await this.stringEncoder.encode(
-      STRING_ENCODER_METHOD_BASE64URL,
-      keyBytes,
-    );
+    const storageBucketEndpoint = resolvedSession.storageBucket.serviceEndpoint;
 
-    // Store the media at that key
-    await this.storageBuckets.put(
-      resolvedSession.storageBucket.serviceEndpoint,
-      key,
-      new Uint8Array(await media.data.arrayBuffer()),
-      resolvedSession.storageBucket.token,
-    );
+    // Private media is encrypted, so its data alone is no use to
+    // someone who learns its key. The content key is carried in the
+    // media object, which is stored unencrypted in the same bucket,
+    // so this doesn't hide the media from the bucket's operator.
+    // Public media is left as is, since anyone can read the key.
+    const encrypted = media.allowed !== undefined && media.allowed !== null;
+
+    let value: MediaValue;
+    if (media.data.size > this.mediaChunkSize) {
+      value = await this.postMediaChunks(
+        media.data,
+        session,
+        storageBucketEndpoint,
+        encrypted,
+      );
+    } else {
+      // Record the content's address so it can be verified
+      // when it is read back. Media this small is fine to hold
+      // in memory, larger media is verified chunk by chunk.
+      let bytes: Uint8Array = new Uint8Array(await media.data.arrayBuffer());
+      const contentKey = encrypted
+        ? await this.mediaEncryption.generateKey(
+            MEDIA_ENCRYPTION_METHOD_AES256_GCM,
+          )
+        : undefined;
+      if (contentKey) {
+        bytes = await this.mediaEncryption.encrypt(
+          MEDIA_ENCRYPTION_METHOD_AES256_GCM,
+          contentKey,
+          0,
+          bytes,
+        );
+      }
+      const hash = await this.mediaHash(bytes);
+
+      // Shared media is stored under a key made from its content
+      // address. Encrypted media never has the same hash twice.
+      // Otherwise every media object gets its own key.
+      const key =
+        this.reuseMediaKeys && !contentKey
+          ? sharedMediaKey(hash)
+          : await this.stringEncoder.encode(
+              STRING_ENCODER_METHOD_BASE64URL,
+              randomBytes(),
+            );
+      const reused =
+        isSharedMediaKey(key) &&
+        (await this.getMediaRefs(storageBucketEndpoint, key)).length > 0;
+
+      // Store the media at that key. Unencrypted blobs are passed
+      // along as is so the runtime can stream them rather than copy
+      if (!reused) {
+        await this.sessions.withAuthorization(
+          session,
+          storageBucketEndpoint,
+          (token) =>
+            this.storageBuckets.put(
+              storageBucketEndpoint,
+              key,
+              contentKey ? bytes : media.data,
+              token,
+            ),
+        );
+      }
+      value = {
+        key,
+        type,
+        size: media.data.size,
+        hash,
+        ...(contentKey
+          ? { encryption: await this.encodeMediaEncryption(contentKey) }
+          : {}),
+      };
+    }
 
     // Create an object
     const { url } = await this.post<typeof MEDIA_OBJECT_SCHEMA>(
       {
-        value: {
-          key,
-          type,
-          size: media.data.size,
-        },
+        value,
         channels: [],
         allowed: media.allowed,
       },
       session,
     );
 
+    if (isSharedMediaKey(value.key)) {
+      try {
+        // Read the list again, in case it changed during the upload
+        const refs = await this.getMediaRefs(storageBucketEndpoint, value.key);
+        await this.putMediaRefs(session, storageBucketEndpoint, value.key, [
+          ...refs,
+          url,
+        ]);
+      } catch (error) {
+        // Media missing from the list could lose its data
+        // when another media object sharing it is deleted
+        await this.delete(url, session).catch(() => {});
+        throw error;
+      }
+    }
+
+    this.mediaUploads.delete(media.data);
     return url;
   };
 
+  /**
+   * Lists the media objects that share the data stored
+   * under a key made from its content address.
+   */
+  protected async getMediaRefs(
+    storageBucketEndpoint: string,
+    key: string,
+  ): Promise<string[]> {
+    let bytes: Uint8Array;
+    try {
+      bytes = await this.storageBuckets.get(
+        storageBucketEndpoint,
+        mediaRefsKey(key),
+      );
+    } catch (error) {
+      if (error instanceof GraffitiErrorNotFound) return [];
+      throw error;
+    }
+    return MediaRefsSchema.parse(JSON.parse(new TextDecoder().decode(bytes)));
+  }
+
+  protected async putMediaRefs(
+    session: GraffitiSession,
+    storageBucketEndpoint: string,
+    key: string,
+    refs: string[],
+  ): Promise<void> {
+    await this.sessions.withAuthorization(
+      session,
+      storageBucketEndpoint,
+      (token) =>
+        this.storageBuckets.put(
+          storageBucketEndpoint,
+          mediaRefsKey(key),
+          new TextEncoder().encode(JSON.stringify(refs)),
+          token,
+        ),
+    );
+  }
+
+  protected async encodeMediaEncryption(
+    contentKey: Uint8Array,
+  ): Promise<NonNullable<MediaValue["encryption"]>> {
+    return {
+      method: MEDIA_ENCRYPTION_METHOD_AES256_GCM,
+      key: await this.stringEncoder.encode(
+        STRING_ENCODER_METHOD_BASE64URL,
+        contentKey,
+      ),
+    };
+  }
+
+  protected async mediaHash(bytes: Uint8Array): Promise<string> {
+    return await this.stringEncoder.encode(
+      STRING_ENCODER_METHOD_BASE64URL,
+      await this.contentAddresses.register(
+        CONTENT_ADDRESS_METHOD_SHA256,
+        bytes,
+      ),
+    );
+  }
+
+  /**
+   * Uploads media one chunk at a time, each under a key derived
+   * from the media's key and the chunk's content address, and
+   * returns the manifest of chunks to store in the media object.
+   * The content key of encrypted media is kept with the upload,
+   * so a resumed upload encrypts each chunk the same way.
+   */
+  protected async postMediaChunks(
+    data: Blob,
+    session: GraffitiSession,
+    storageBucketEndpoint: string,
+    encrypted: boolean,
+  ): Promise<MediaValue> {
+    const chunkSize = this.mediaChunkSize;
+    if (data.size > chunkSize * MAX_MEDIA_CHUNKS) {
+      throw new GraffitiErrorTooLarge(
+        `Media is larger than the limit of ${MAX_MEDIA_CHUNKS} chunks of ${chunkSize} bytes`,
+      );
+    }
+
+    let upload = this.mediaUploads.get(data);
+    if (
+      !upload ||
+      upload.actor !== session.actor ||
+      !!upload.contentKey !== encrypted
+    ) {
+      upload = {
+        actor: session.actor,
+        key: await this.stringEncoder.encode(
+          STRING_ENCODER_METHOD_BASE64URL,
+          randomBytes(),
+        ),
+        uploaded: new Set(),
+        contentKey: encrypted
+          ? await this.mediaEncryption.generateKey(
+              MEDIA_ENCRYPTION_METHOD_AES256_GCM,
+            )
+          : undefined,
+      };
+      this.mediaUploads.set(data, upload);
+    }
+    const { key, uploaded, contentKey } = upload;
+
+    const chunks: NonNullable<MediaValue["chunks"]> = [];
+    for (let start = 0; start < data.size; start += chunkSize) {
+      // Only one chunk is held in memory at a time
+      const plaintext = new Uint8Array(
+        await data.slice(start, start + chunkSize).arrayBuffer(),
+      );
+      const bytes = contentKey
+        ? await this.mediaEncryption.encrypt(
+            MEDIA_ENCRYPTION_METHOD_AES256_GCM,
+            contentKey,
+            chunks.length,
+            plaintext,
+          )
+        : plaintext;
+      const hash = await this.mediaHash(bytes);
+      chunks.push({ hash, size: plaintext.length });
+      if (uploaded.has(hash)) continue;
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await this.sessions.withAuthorization(
+            session,
+            storageBucketEndpoint,
+            (token) =>
+              this.storageBuckets.put(
+                storageBucketEndpoint,
+                mediaChunkKey(key, hash),
+                bytes,
+                token,
+              ),
+          );
+          break;
+        } catch (error) {
+          // Authorization and size problems won't go away by retrying
+          if (
+            attempt >= MEDIA_CHUNK_ATTEMPTS ||
+            error instanceof GraffitiErrorUnauthorized ||
+            error instanceof GraffitiErrorForbidden ||
+            error instanceof GraffitiErrorTooLarge
+          ) {
+            throw error;
+          }
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, MEDIA_CHUNK_RETRY_DELAY * 2 ** (attempt - 1)),
+        );
+      }
+      uploaded.add(hash);
+    }
+
+    return {
+      key,
+      type: data.type,
+      size: data.size,
+      chunks,
+      ...(contentKey
+        ? { encryption: await this.encodeMediaEncryption(contentKey) }
+        : {}),
+    };
+  }
+
   getMedia: Graffiti["getMedia"] = async (...args) => {
     const [mediaUrl, accept, session] = args;
 
-    const object = await this.get<typeof MEDIA_OBJECT_SCHEMA>(
+    const { object, storageBucketEndpoint } = await this.resolveMedia(
       mediaUrl,
-      MEDIA_OBJECT_SCHEMA,
+      accept,
       session,
     );
-
-    const { key, type, size } = object.value;
+    const { type, size } = object.value;
 
     if (accept?.maxBytes && size > accept.maxBytes) {
       throw new GraffitiErrorTooLarge("File size exceeds limit");
     }
 
+    const data = await this.streamMedia(storageBucketEndpoint, object.value, {
+      start: 0,
+      end: size,
+    });
+
+    // Let the runtime assemble the blob from the stream
+    // rather than buffering it and then copying it
+    const blob = await new Response(data, {
+      headers: { "Content-Type": type },
+    }).blob();
+
+    return {
+      data: blob,
+      actor: object.actor,
+      allowed: object.allowed,
+    };
+  };
+
+  getMediaRange = async (
+    mediaUrl: string,
+    range: ByteRange,
+    accept?: GraffitiMediaAccept,
+    session?: GraffitiSession | null,
+  ): Promise<GraffitiMediaRange> => {
+    const reader = await this.openMedia(mediaUrl, accept, session);
+    const end = Math.min(range.end ?? reader.size, reader.size);
+    const stream = await reader.stream({ start: range.start, end });
+    const blob = await new Response(stream, {
+      headers: { "Content-Type": reader.type },
+    }).blob();
+
+    return {
+      data: blob,
+      actor: reader.actor,
+      allowed: reader.allowed,
+      size: reader.size,
+      range: { start: range.start, end: range.start + blob.size },
+    };
+  };
+
+  openMedia = async (
+    mediaUrl: string,
+    accept?: GraffitiMediaAccept,
+    session?: GraffitiSession | null,
+  ): Promise<GraffitiMediaReader> => {
+    const { object, storageBucketEndpoint } = await this.resolveMedia(
+      mediaUrl,
+      accept,
+      session,
+    );
+    const { type, size } = object.value;
+
+    const stream = async (range?: ByteRange) => {
+      const start = range?.start ?? 0;
+      const end = Math.min(range?.end ?? size, size);
+      if (start < 0 || start >= end) {
+        throw new RangeError(`Invalid range of media with size ${size}`);
+      }
+      if (accept?.maxBytes && end - start > accept.maxBytes) {
+        throw new GraffitiErrorTooLarge("Range size exceeds limit");
+      }
+      return await this.streamMedia(storageBucketEndpoint, object.value, {
+        start,
+        end,
+      });
+    };
+
+    const read = async (range: ByteRange) =>
+      new Uint8Array(await new Response(await stream(range)).arrayBuffer());
+
+    return {
+      type,
+      size,
+      actor: object.actor,
+      allowed: object.allowed,
+      stream,
+      read,
+      chunks: async function* (chunkSize = DEFAULT_MEDIA_READ_SIZE) {
+        for (let start = 0; start < size; start += chunkSize) {
+          yield await read({ start, end: start + chunkSize });
+        }
+      },
+    };
+  };
+
+  /**
+   * Streams part of a media object's data. Chunked media is
+   * reassembled from just the chunks that overlap the range,
+   * and each chunk is checked against its content address, so
+   * a storage bucket can't swap out the data undetected.
+   * Encrypted chunks are decrypted after they are checked.
+   *
+   * Media too small to be chunked is checked as a single chunk,
+   * so reading any part of it downloads all of it. That is at most
+   * `mediaChunkSize` bytes, which is the trade-off for being able
+   * to verify it with the one hash.
+   */
+  protected async streamMedia(
+    storageBucketEndpoint: string,
+    value: MediaValue,
+    range: Required<ByteRange>,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { key, size, hash } = value;
+    const { start, end } = range;
+
+    // Media with a hash is checked as if it were a single chunk.
+    // Media from before hashes were recorded can't be checked.
+    const chunks = value.chunks ?? (hash ? [{ hash, size }] : undefined);
+    const encryption = value.encryption;
+    if (!chunks) {
+      if (encryption) {
+        throw new Error("Encrypted media has no content address");
+      }
+      return await this.storageBuckets.getStream(
+        storageBucketEndpoint,
+        key,
+        end - start,
+        start === 0 && end === size ? undefined : range,
+      );
+    }
+    const chunkKey = (chunkHash: string) =>
+      value.chunks ? mediaChunkKey(key, chunkHash) : key;
+
+    if (chunks.reduce((total, chunk) => total + chunk.size, 0) !== size) {
+      throw new Error("Media chunks do not add up to the media size");
+    }
+    const overlapping: ((typeof chunks)[number] & {
+      offset: number;
+      index: number;
+    })[] = [];
+    let offset = 0;
+    for (const [index, chunk] of chunks.entries()) {
+      if (offset < end && offset + chunk.size > start) {
+        overlapping.push({ ...chunk, offset, index });
+      }
+      offset += chunk.size;
+    }
+
+    const contentKey = encryption
+      ? await this.stringEncoder.decode(encryption.key)
+      : undefined;
+    const overhead = encryption
+      ? this.mediaEncryption.overhead(encryption.method)
+      : 0;
+
+    let index = 0;
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        const chunk = overlapping[index++];
+        if (!chunk) return controller.close();
+
+        const bytes = await this.storageBuckets.get(
+          storageBucketEndpoint,
+          chunkKey(chunk.hash),
+          chunk.size + overhead,
+        );
+        const contentAddress = await this.stringEncoder.decode(chunk.hash);
+        const hash = await this.stringEncoder.encode(
+          STRING_ENCODER_METHOD_BASE64URL,
+          await this.contentAddresses.register(
+            await this.contentAddresses.getMethod(contentAddress),
+            bytes,
+          ),
+        );
+        if (hash !== chunk.hash) {
+          throw new Error(`Media chunk ${chunk.hash} does not match its data`);
+        }
+
+        const plaintext =
+          encryption && contentKey
+            ? await this.mediaEncryption.decrypt(
+                encryption.method,
+                contentKey,
+                chunk.index,
+                bytes,
+              )
+            : bytes;
+        if (plaintext.length !== chunk.size) {
+          throw new Error(`Media chunk ${chunk.hash} has the wrong size`);
+        }
+
+        controller.enqueue(
+          plaintext.subarray(
+            Math.max(start - chunk.offset, 0),
+            Math.min(end - chunk.offset, chunk.size),
+          ),
+        );
+      },
+    });
+  }
+
+  protected async resolveMedia(
+    mediaUrl: string,
+    accept?: GraffitiMediaAccept,
+    session?: GraffitiSession | null,
+  ) {
+    const object = await this.get<typeof MEDIA_OBJECT_SCHEMA>(
+      mediaUrl,
+      MEDIA_OBJECT_SCHEMA,
+      session,
+    );
+
     // Make sure it adheres to requirements.accept
     if (accept?.types) {
-      if (!isMediaAcceptable(type, accept.types)) {
+      if (!isMediaAcceptable(object.value.type, accept.types)) {
         throw new GraffitiErrorNotAcceptable(
-          `Unacceptable media type, ${type}`,
+          `Unacceptable media type, ${object.value.type}`,
         );
       }
     }
@@ -608,25 +1297,13 @@ export class GraffitiDecentralized implements Graffiti {
     }
     const storageBucketEndpoint = storageBucketService.serviceEndpoint;
 
-    const data = await this.storageBuckets.get(
-      storageBucketEndpoint,
-      key,
-      size,
-    );
-
-    const blob = new Blob([data.slice()], { type });
-
-    return {
-      data: blob,
-      actor: object.actor,
-      allowed: object.allowed,
-    };
-  };
+    return { object, storageBucketEndpoint };
+  }
 
   deleteMedia: Graffiti["deleteMedia"] = async (...args) => {
     const [mediaUrl, session] = args;
 
-    const resolvedSession = this.sessions.resolveSession(session);
+    const resolvedSession = await this.sessions.resolveSession(session);
 
     const result = await this.delete(mediaUrl, session);
 
@@ -635,11 +1312,56 @@ export class GraffitiDecentralized implements Graffiti {
         "Deleted object was not media: " + JSON.stringify(result, null, 2),
       );
 
-    await this.storageBuckets.delete(
-      resolvedSession.storageBucket.serviceEndpoint,
-      result.value.key,
-      resolvedSession.storageBucket.token,
-    );
+    const key = result.value.key;
+    const storageBucketEndpoint = resolvedSession.storageBucket.serviceEndpoint;
+
+    // Keep data that other media objects still share
+    const sharedKeys: string[] = [];
+    if (isSharedMediaKey(key)) {
+      const refs = (await this.getMediaRefs(storageBucketEndpoint, key)).filter(
+        (ref) => ref !== result.url,
+      );
+      if (refs.length > 0) {
+        await this.putMediaRefs(session, storageBucketEndpoint, key, refs);
+        return;
+      }
+      // The list goes first, so if deleting stops partway
+      // the data is left behind rather than the list
+      sharedKeys.push(mediaRefsKey(key));
+    }
+
+    // Chunks with the same content share a key
+    const storageKeys = new Set<string>([
+      ...sharedKeys,
+      ...("chunks" in result.value && Array.isArray(result.value.chunks)
+        ? result.value.chunks.flatMap((chunk: unknown) =>
+            typeof chunk === "object" &&
+            chunk !== null &&
+            "hash" in chunk &&
+            typeof chunk.hash === "string"
+              ? [mediaChunkKey(key, chunk.hash)]
+              : [],
+          )
+        : [key]),
+    ]);
+
+    for (const storageKey of storageKeys) {
+      try {
+        await this.sessions.withAuthorization(
+          session,
+          storageBucketEndpoint,
+          (token) =>
+            this.storageBuckets.delete(
+              storageBucketEndpoint,
+              storageKey,
+              token,
+            ),
+        );
+      } catch (error) {
+        // It may have been deleted by an earlier attempt
+        if (!(error instanceof GraffitiErrorNotFound)) throw error;
+      }
+    }
   };
 
   async *discoverMeta<Schema extends JSONSchema>(
@@ -652,13 +1374,16 @@ export class GraffitiDecentralized implements Graffiti {
   ): GraffitiObjectStream<Schema> {
     const tombstones = new Map<string, boolean>();
 
-    let allInboxes: { serviceEndpoint: string; token?: string }[];
+    let allInboxes: { serviceEndpoint: string; token?: InboxToken }[];
     if (session) {
-      const resolvedSession = this.sessions.resolveSession(session);
+      const resolvedSession = await this.sessions.resolveSession(session);
       allInboxes = [
         resolvedSession.personalInbox,
         ...resolvedSession.sharedInboxes,
-      ];
+      ].map(({ serviceEndpoint }) => ({
+        serviceEndpoint,
+        token: this.inboxToken(session, serviceEndpoint),
+      }));
     } else {
       allInboxes = this.defaultInboxEndpoints.map((e) => ({
         serviceEndpoint: e,
@@ -831,7 +1556,7 @@ export class GraffitiDecentralized implements Graffiti {
     session: GraffitiSession,
     priorAnnouncements?: MessageMetadataAnnouncements,
   ): Promise<void> {
-    const resolvedSession = this.sessions.resolveSession(session);
+    const resolvedSession = await this.sessions.resolveSession(session);
 
     const metadataBase: MessageMetadataBase = {
       [MESSAGE_DATA_STORAGE_BUCKET_KEY]: storageBucketKey,
@@ -992,6 +1717,18 @@ export class GraffitiDecentralized implements Graffiti {
     });
   }
 
+  /**
+   * Inbox requests made for a session go through it, so that
+   * a rejected token is refreshed and the request retried.
+   */
+  protected inboxToken(
+    session: GraffitiSession,
+    inboxEndpoint: string,
+  ): InboxToken {
+    return (request) =>
+      this.sessions.withAuthorization(session, inboxEndpoint, request);
+  }
+
   protected async *querySingleEndpoint<Schema extends JSONSchema>(
     inboxEndpoint: string,
     queryArguments:
@@ -1002,7 +1739,7 @@ export class GraffitiDecentralized implements Graffiti {
       | {
           cursor: string;
         },
-    inboxToken?: string | null,
+    inboxToken?: InboxToken,
     recipient?: string | null,
   ): SingleEndpointQueryIterator<Schema> {
     const iterator: MessageStream<Schema> =
@@ -1062,7 +1799,7 @@ export class GraffitiDecentralized implements Graffiti {
   protected async processOneLabeledMessage<Schema extends JSONSchema>(
     inboxEndpoint: string,
     result: LabeledMessage<Schema>,
-    inboxToken?: string | null,
+    inboxToken?: InboxToken,
     recipient?: string | null,
   ): Promise<SingleEndpointQueryResult<Schema> | void> {
     const label = result.l;
@@ -1306,11 +2043,60 @@ const MEDIA_OBJECT_SCHEMA = {
         type: { type: "string" },
         size: { type: "number" },
         key: { type: "string" },
+        // The content address of media that isn't chunked
+        hash: { type: "string" },
+        // Large media is split into chunks, stored under
+        // keys made from `key` and each chunk's hash
+        chunks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              hash: { type: "string" },
+              size: { type: "number" },
+            },
+            required: ["hash", "size"],
+          },
+        },
+        // Private media is encrypted under this content key. This
+        // object is stored unencrypted next to the data, so whoever
+        // runs the bucket can decrypt it. Hashes are of the
+        // encrypted data and sizes are of the plaintext.
+        encryption: {
+          type: "object",
+          properties: {
+            method: { type: "string" },
+            key: { type: "string" },
+          },
+          required: ["method", "key"],
+        },
       },
       required: ["type", "size", "key"],
     },
   },
 } as const satisfies JSONSchema;
+type MediaValue = GraffitiObject<typeof MEDIA_OBJECT_SCHEMA>["value"];
+
+function mediaChunkKey(key: string, hash: string) {
+  return `${key}.${hash}`;
+}
+
+// Random keys are base64url encoded, so they never contain a "."
+const MEDIA_SHARED_KEY_PREFIX = "shared.";
+const MEDIA_REFS_KEY_SUFFIX = ".refs";
+const MediaRefsSchema = array(string());
+
+function sharedMediaKey(hash: string) {
+  return `${MEDIA_SHARED_KEY_PREFIX}${hash}`;
+}
+
+function isSharedMediaKey(key: string) {
+  return key.startsWith(MEDIA_SHARED_KEY_PREFIX);
+}
+
+function mediaRefsKey(key: string) {
+  return `${key}${MEDIA_REFS_KEY_SUFFIX}`;
+}
 
 const CursorSchema = strictObject({
   cursors: record(url(), string()),
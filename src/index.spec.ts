@@ -22,8 +22,12 @@ import { stringEncodingTests } from "./2-primitives/1-string-encoding-tests";
 import { contentAddressesTests } from "./2-primitives/2-content-addresses-tests";
 import { channelAttestationTests } from "./2-primitives/3-channel-attestations-tests";
 import { allowedAttestationTests } from "./2-primitives/4-allowed-attestations-tests";
+import { mediaEncryptionTests } from "./2-primitives/5-media-encryption-tests";
+import { sessionStoreTests } from "./3-protocol/1-session-stores-tests";
+import { sessionTests } from "./3-protocol/1-sessions-tests";
 import { handleTests } from "./3-protocol/2-handles-tests";
 import { objectEncodingTests } from "./3-protocol/3-object-encoding-tests";
+import { mediaTests } from "./3-protocol/4-graffiti-tests";
 import { GraffitiDecentralized } from "./3-protocol/4-graffiti";
 
 describe("GraffitiDecentralized Tests", async () => {
@@ -46,11 +50,13 @@ describe("GraffitiDecentralized Tests", async () => {
   for (const handle of handles) {
     sessions.push(await login(handle));
   }
-  const resolvedSessions = sessions.map((s) => {
-    const resolved = sessionMethods.resolveSession(s);
-    if (!resolved) throw new Error("Error logging in");
-    return resolved;
-  });
+  const resolvedSessions = await Promise.all(
+    sessions.map(async (s) => {
+      const resolved = await sessionMethods.resolveSession(s);
+      if (!resolved) throw new Error("Error logging in");
+      return resolved;
+    }),
+  );
   // Logout on cleanup
   afterAll(async () => {
     for (const session of sessions) {
@@ -74,10 +80,14 @@ describe("GraffitiDecentralized Tests", async () => {
   contentAddressesTests();
   channelAttestationTests();
   allowedAttestationTests();
+  mediaEncryptionTests();
 
   // Protocol tests
+  sessionStoreTests();
+  sessionTests();
   handleTests(handles[0]);
   objectEncodingTests();
+  mediaTests();
 
   const useGraffiti = () => {
     return new GraffitiDecentralized(
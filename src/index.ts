@@ -1,16 +1,235 @@
-import { Graffiti, GraffitiRuntimeTypes } from "@graffiti-garden/api";
+import { GraffitiRuntimeTypes } from "@graffiti-garden/api";
 import {
   GraffitiDecentralized as GraffitiDecentralized_,
   type GraffitiDecentralizedOptions,
 } from "./3-protocol/4-graffiti";
 
+export type { GraffitiDecentralizedOptions };
+export type {
+  GraffitiMediaRange,
+  GraffitiMediaReader,
+} from "./3-protocol/4-graffiti";
+export type { ByteRange } from "./1-services/3-storage-buckets";
+export type {
+  ServiceChange,
+  ServiceChangeEvent,
+  ServiceChanges,
+  ServiceState,
+  ServiceStatus,
+  SessionState,
+  SessionStateChangeEvent,
+} from "./3-protocol/1-sessions";
+export type { DIDResolver } from "did-resolver";
+export type {
+  HandleChangeEvent,
+  HandleState,
+  VerifiedHandle,
+} from "./3-protocol/2-handles";
+export {
+  getAtprotoHandleMethod,
+  type AtprotoHandleMethodOptions,
+  type HandleMethod,
+} from "./3-protocol/2-handle-methods";
+export type {
+  AuthorizationFlow,
+  AuthorizationGrant,
+  AuthorizationMethod,
+} from "./1-services/1-authorization";
+export {
+  FileSessionStore,
+  LocalStorageSessionStore,
+  MemorySessionStore,
+  type FileSessionStoreOptions,
+  type SessionStore,
+} from "./3-protocol/1-session-stores";
+export {
+  FileDIDDocumentCache,
+  IndexedDBDIDDocumentCache,
+  MemoryDIDDocumentCache,
+  type CachedDIDDocument,
+  type DIDDocumentCache,
+} from "./1-services/2-did-caches";
+
 /**
  * A decentralized implementation of the
  * [Graffiti API](https://api.graffiti.garden/classes/Graffiti.html).
  */
 export class GraffitiDecentralized extends GraffitiRuntimeTypes {
+  protected readonly decentralized: GraffitiDecentralized_;
+
+  /**
+   * Dispatches a `handlechange` event when an actor's handle, as
+   * seen by {@link checkHandle} or {@link watchHandle}, changes
+   * or stops verifying. See {@link HandleChangeEvent}.
+   */
+  readonly handleEvents: GraffitiDecentralized_["handleEvents"];
+
   constructor(options?: GraffitiDecentralizedOptions) {
-    const graffiti: Graffiti = new GraffitiDecentralized_(options);
+    const graffiti = new GraffitiDecentralized_(options);
     super(graffiti);
+    this.decentralized = graffiti;
+    this.handleEvents = graffiti.handleEvents;
   }
+
+  /**
+   * Logs in an actor with tokens that were issued ahead of time,
+   * for servers, tests, and bots that cannot go through an
+   * interactive login. Tokens are keyed by authorization endpoint
+   * or by service endpoint. The result is reported through a
+   * `login` event on {@link sessionEvents}, just like {@link login}.
+   */
+  loginWithTokens: GraffitiDecentralized_["loginWithTokens"] = (...args) =>
+    this.decentralized.loginWithTokens(...args);
+
+  /**
+   * Serializes an actor's session so it can be handed to another
+   * device or process, optionally encrypted with a passphrase.
+   */
+  exportSession: GraffitiDecentralized_["exportSession"] = (...args) =>
+    this.decentralized.exportSession(...args);
+
+  /**
+   * Logs in with a session from {@link exportSession}, after checking
+   * that the actor's services have not changed since it was exported.
+   * The result is reported through a `login` event on
+   * {@link sessionEvents}, just like {@link login}.
+   */
+  importSession: GraffitiDecentralized_["importSession"] = (...args) =>
+    this.decentralized.importSession(...args);
+
+  /**
+   * Lists every logged in actor along with the status of each of
+   * their services and when its token was last seen to work.
+   * Changes are reported through `statechange` events on
+   * {@link sessionEvents}, for example when a service starts
+   * rejecting its token and the actor needs to log in again.
+   */
+  getSessionStates: GraffitiDecentralized_["getSessionStates"] = (...args) =>
+    this.decentralized.getSessionStates(...args);
+
+  /**
+   * Gets the state of a single actor's services,
+   * or `undefined` if the actor is not logged in.
+   */
+  getSessionState: GraffitiDecentralized_["getSessionState"] = (...args) =>
+    this.decentralized.getSessionState(...args);
+
+  /**
+   * Checks each of an actor's tokens against its service
+   * and returns the updated state.
+   */
+  verifySession: GraffitiDecentralized_["verifySession"] = (...args) =>
+    this.decentralized.verifySession(...args);
+
+  /**
+   * Logs an actor back in to a single service, along with any other
+   * services that share its authorization endpoint, without logging
+   * out of the rest. Use this when a service in
+   * {@link getSessionState} becomes `unauthorized`. The result is
+   * reported through a `login` event on {@link sessionEvents}.
+   * With the `"popup"` authorization flow, call this directly
+   * from a click so that the browser allows the popup.
+   */
+  reauthorize: GraffitiDecentralized_["reauthorize"] = (...args) =>
+    this.decentralized.reauthorize(...args);
+
+  /**
+   * Compares an actor's session with the latest version of their
+   * DID document and returns any services that were added or
+   * removed since they logged in. New changes are also reported
+   * through a `servicechange` event on {@link sessionEvents}.
+   * To check periodically, set the `serviceCheckInterval` option.
+   */
+  checkServices: GraffitiDecentralized_["checkServices"] = (...args) =>
+    this.decentralized.checkServices(...args);
+
+  /**
+   * Brings an actor's session up to date with their DID document,
+   * only authorizing services that are new. The result is reported
+   * through a `login` event on {@link sessionEvents}.
+   * With the `"popup"` authorization flow, call this directly
+   * from a click so that the browser allows the popup.
+   */
+  updateServices: GraffitiDecentralized_["updateServices"] = (...args) =>
+    this.decentralized.updateServices(...args);
+
+  /**
+   * Removes a DID's document from the cache, or every document
+   * if no DID is given, so it is fetched fresh the next time it
+   * is needed. Documents otherwise expire after the `didCacheTtl`
+   * option or whatever their HTTP cache headers specify.
+   * Cached handles that depend on the document are forgotten too.
+   */
+  invalidateDid: GraffitiDecentralized_["invalidateDid"] = (...args) =>
+    this.decentralized.invalidateDid(...args);
+
+  /**
+   * Looks up the handles of many actors at once, for example to
+   * label a feed of objects. Repeated actors are only resolved once,
+   * and verified handles are remembered for the `handleCacheTtl`
+   * option. Each actor maps to the settled result of
+   * {@link actorToHandle}.
+   */
+  actorsToHandles: GraffitiDecentralized_["actorsToHandles"] = (...args) =>
+    this.decentralized.actorsToHandles(...args);
+
+  /**
+   * Looks up the actors of many handles at once. Each handle
+   * maps to the settled result of {@link handleToActor}.
+   */
+  handlesToActors: GraffitiDecentralized_["handlesToActors"] = (...args) =>
+    this.decentralized.handlesToActors(...args);
+
+  /**
+   * Gets the last handle verified for an actor and when it was
+   * verified, along with the handles the actor had before it.
+   * This is `undefined` until the actor's handle has been looked up.
+   */
+  getHandleState: GraffitiDecentralized_["getHandleState"] = (...args) =>
+    this.decentralized.getHandleState(...args);
+
+  /**
+   * Verifies an actor's handle again, bypassing any caches,
+   * and returns the updated state from {@link getHandleState}.
+   */
+  checkHandle: GraffitiDecentralized_["checkHandle"] = (...args) =>
+    this.decentralized.checkHandle(...args);
+
+  /**
+   * Checks an actor's handle every `handleCheckInterval`, for
+   * example while their content is on screen, so that a
+   * `handlechange` event on {@link handleEvents} is dispatched
+   * if the handle changes or stops pointing back at the actor.
+   * Lookups that fail, like when offline, are only recorded
+   * in the state from {@link getHandleState}.
+   */
+  watchHandle: GraffitiDecentralized_["watchHandle"] = (...args) =>
+    this.decentralized.watchHandle(...args);
+
+  /**
+   * Stops checking an actor's handle, as started by {@link watchHandle}.
+   */
+  unwatchHandle: GraffitiDecentralized_["unwatchHandle"] = (...args) =>
+    this.decentralized.unwatchHandle(...args);
+
+  /**
+   * Like {@link getMedia}, but only downloads part of the media,
+   * given as a byte range with an exclusive end like `Blob.slice`.
+   * The `maxBytes` limit applies to the size of the range.
+   *
+   * Only media large enough to be uploaded in chunks is read in
+   * parts, one chunk at a time. Smaller media is downloaded whole
+   * so that it can be verified, and the range is cut from it.
+   */
+  getMediaRange: GraffitiDecentralized_["getMediaRange"] = (...args) =>
+    this.decentralized.getMediaRange(...args);
+
+  /**
+   * Looks up media without downloading it, returning a reader
+   * that fetches byte ranges on demand. This lets audio and video
+   * start playing, or seek, before the whole file has arrived,
+   * for example by appending chunks to a `MediaSource`.
+   */
+  openMedia: GraffitiDecentralized_["openMedia"] = (...args) =>
+    this.decentralized.openMedia(...args);
 }